@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import type { LaunchItem, TaskItem, SourceRef } from "./sources";
+import { getOutputChannel } from "./output";
+
+// Public API returned from `activate`, so other extensions can contribute their own items
+// (deploy targets, data jobs, ...) to the Runs view:
+//
+//   const api = vscode.extensions.getExtension("<publisher>.better-run")?.exports as BetterRunApi;
+//   context.subscriptions.push(api.registerRunSource({ id: "deploy", label: "Deploy", ... }));
+
+export interface RunSourceItem {
+  // Unique within the provider
+  id: string;
+  label: string;
+  // "launch" items appear under Launches and support Run/Debug; "task" items under Tasks
+  kind: "launch" | "task";
+  // Category folder in the tree; undefined = top level
+  category?: string;
+  description?: string;
+  tooltip?: string;
+  // Workspace folder to list the item under; undefined = "Local"
+  workspaceFolder?: vscode.WorkspaceFolder;
+}
+
+export interface RunSourceExecuteOptions {
+  // True when the user chose Debug rather than Run (launch items only)
+  debug: boolean;
+}
+
+export interface RunSourceProvider {
+  // Unique provider id, e.g. "myTools.deployTargets"
+  id: string;
+  // Shown as the source name in tooltips
+  label: string;
+  provideItems(): RunSourceItem[] | Thenable<RunSourceItem[]>;
+  // Fire to make Better Run reload this provider's items
+  onDidChange?: vscode.Event<void>;
+  // Run the item. The item shows as running until the returned promise settles.
+  execute(item: RunSourceItem, options: RunSourceExecuteOptions): void | Thenable<void>;
+}
+
+export interface BetterRunApi {
+  registerRunSource(provider: RunSourceProvider): vscode.Disposable;
+  // Reload all sources (built-in and registered)
+  refresh(): Promise<void>;
+}
+
+// Contributed item as carried on LaunchItem/TaskItem
+export interface ContributedRef {
+  providerId: string;
+  item: RunSourceItem;
+}
+
+/** Keeps the registered providers and turns their items into launch/task items for the tree. */
+export class RunSourceRegistry implements vscode.Disposable {
+  private readonly providers: Map<string, { provider: RunSourceProvider; listener?: vscode.Disposable }> = new Map();
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  register(provider: RunSourceProvider): vscode.Disposable {
+    if (!provider?.id || typeof provider.provideItems !== "function" || typeof provider.execute !== "function") {
+      throw new Error("Better Run: a run source needs an id, provideItems() and execute()");
+    }
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Better Run: run source '${provider.id}' is already registered`);
+    }
+
+    const listener = provider.onDidChange?.(() => this._onDidChange.fire());
+    this.providers.set(provider.id, { provider, listener });
+    this._onDidChange.fire();
+
+    return new vscode.Disposable(() => {
+      const entry = this.providers.get(provider.id);
+      if (entry?.provider !== provider) return;
+      entry.listener?.dispose();
+      this.providers.delete(provider.id);
+      this._onDidChange.fire();
+    });
+  }
+
+  async load(): Promise<{ launchSources: SourceRef[]; launches: LaunchItem[]; taskSources: SourceRef[]; tasks: TaskItem[] }> {
+    const launchSources: SourceRef[] = [];
+    const taskSources: SourceRef[] = [];
+    const launches: LaunchItem[] = [];
+    const tasks: TaskItem[] = [];
+
+    for (const { provider } of this.providers.values()) {
+      let items: RunSourceItem[];
+      try {
+        items = (await provider.provideItems()) ?? [];
+      } catch (err) {
+        getOutputChannel().appendLine(
+          `Better Run: run source '${provider.id}' failed to provide items: ${err instanceof Error ? err.message : err}`
+        );
+        continue;
+      }
+
+      // One source per provider and workspace folder, like one launch.json per folder
+      const sourcesByKey: Map<string, SourceRef> = new Map();
+      const sourceFor = (item: RunSourceItem): SourceRef => {
+        const kind = item.kind === "launch" ? "launches" : "tasks";
+        const key = `${kind}::${item.workspaceFolder?.uri.toString() ?? "user"}`;
+        let source = sourcesByKey.get(key);
+        if (!source) {
+          source = {
+            id: `provider:${provider.id}:${key}`,
+            label: provider.label,
+            workspaceFolder: item.workspaceFolder,
+            kind,
+          };
+          sourcesByKey.set(key, source);
+          (kind === "launches" ? launchSources : taskSources).push(source);
+        }
+        return source;
+      };
+
+      for (const item of items) {
+        if (!item?.id || !item.label) continue;
+        const contributed: ContributedRef = { providerId: provider.id, item };
+        const id = `provider:${provider.id}:${item.id}`;
+
+        if (item.kind === "launch") {
+          launches.push({
+            id,
+            name: item.label,
+            category: item.category,
+            config: {},
+            workspaceFolder: item.workspaceFolder,
+            source: sourceFor(item),
+            contributed,
+          });
+        } else {
+          tasks.push({
+            id,
+            label: item.label,
+            description: item.description,
+            category: item.category,
+            workspaceFolder: item.workspaceFolder,
+            source: sourceFor(item),
+            contributed,
+          });
+        }
+      }
+    }
+
+    return { launchSources, launches, taskSources, tasks };
+  }
+
+  async execute(ref: ContributedRef, options: RunSourceExecuteOptions): Promise<void> {
+    const entry = this.providers.get(ref.providerId);
+    if (!entry) {
+      vscode.window.showWarningMessage(`Run source '${ref.providerId}' is no longer available.`);
+      return;
+    }
+    await entry.provider.execute(ref.item, options);
+  }
+
+  dispose(): void {
+    for (const { listener } of this.providers.values()) listener?.dispose();
+    this.providers.clear();
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,110 @@
+// Category rule engine shared by launches and tasks. Kept free of the vscode API;
+// callers describe each item as a CategorySubject.
+
+// Item field a rule's pattern is matched against
+export type CategoryField = "label" | "command" | "program" | "source" | "type";
+
+export interface CategoryRule {
+  // May be a nested path like "Backend/DB/Migrations"
+  category: string;
+  pattern: string;
+  // Defaults to "label" (the launch name or task label)
+  field?: CategoryField;
+}
+
+export interface CategorySubject {
+  label: string;
+  // Task command line, or `command` of a launch (e.g. node-terminal)
+  command?: string;
+  // Launch `program` (or `module` for Python)
+  program?: string;
+  // Path of the defining file relative to its workspace folder
+  source?: string;
+  // Launch or task `type`
+  type?: string;
+}
+
+export interface CategoryConfig {
+  launchRules: CategoryRule[];
+  taskRules: CategoryRule[];
+  // Exact label -> category, for both launches and tasks
+  byLabel: Record<string, string>;
+}
+
+export interface Categorizer {
+  launch(subject: CategorySubject): string | undefined;
+  task(subject: CategorySubject): string | undefined;
+}
+
+/** "Backend / DB//Migrations " -> "Backend/DB/Migrations"; empty -> undefined */
+export function normalizeCategory(category: unknown): string | undefined {
+  if (typeof category !== "string") return undefined;
+  const path = category
+    .split("/")
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join("/");
+  return path || undefined;
+}
+
+type CompiledRule = { category: string; re: RegExp; field: CategoryField };
+
+// Invalid patterns are skipped here; they are reported as diagnostics when loading
+function compileRules(rules: CategoryRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const r of rules) {
+    const category = normalizeCategory(r?.category);
+    if (!category || typeof r.pattern !== "string") continue;
+    try {
+      compiled.push({ category, re: new RegExp(r.pattern, "i"), field: r.field ?? "label" });
+    } catch {
+      // ignore invalid regex
+    }
+  }
+  return compiled;
+}
+
+function resolve(subject: CategorySubject, rules: CompiledRule[], byLabel: Record<string, string>): string | undefined {
+  const exact = normalizeCategory(byLabel[subject.label]);
+  if (exact) return exact;
+
+  for (const r of rules) {
+    const value = subject[r.field];
+    if (value !== undefined && r.re.test(value)) return r.category;
+  }
+
+  // Fallback: treat "X: ..." as category
+  const m = subject.label.match(/^([^:]+):\s*/);
+  if (m?.[1]) return normalizeCategory(m[1]);
+
+  return undefined; // no category means "top level"
+}
+
+/**
+ * Category of an item, in priority order: exact label match, the first matching rule
+ * of the launch or task rule set, the "Category: ..." label prefix, else none.
+ */
+export function createCategorizer(config: CategoryConfig): Categorizer {
+  const launchRules = compileRules(config.launchRules);
+  const taskRules = compileRules(config.taskRules);
+  return {
+    launch: (subject) => resolve(subject, launchRules, config.byLabel),
+    task: (subject) => resolve(subject, taskRules, config.byLabel),
+  };
+}
+
+// Direct child folders of `parent` ("" = top level) among category paths like "A/B/C"
+export function childCategories(categories: Iterable<string>, parent: string): string[] {
+  const prefix = parent ? `${parent}/` : "";
+  const children = new Set<string>();
+  for (const category of categories) {
+    if (category === parent || !category.startsWith(prefix)) continue;
+    children.add(prefix + category.slice(prefix.length).split("/")[0]);
+  }
+  return Array.from(children).sort((a, b) => a.localeCompare(b));
+}
+
+// True when `category` is `parent` itself or nested below it
+export function isWithinCategory(category: string, parent: string): boolean {
+  return category === parent || category.startsWith(`${parent}/`);
+}
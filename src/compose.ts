@@ -0,0 +1,104 @@
+// docker compose support: parse services out of a compose file and build the CLI
+// invocations for them. Kept free of the vscode API so it can run without an editor or daemon.
+
+export const COMPOSE_FILE_NAMES = ["compose.yaml", "compose.yml", "docker-compose.yml", "docker-compose.yaml"];
+
+export type ComposeAction = "up" | "down" | "restart" | "logs";
+
+export interface ComposeService {
+  name: string;
+  image?: string;
+  // True when the service is built from a local Dockerfile
+  build?: boolean;
+  containerName?: string;
+  profiles?: string[];
+  // 0-based line of the service key
+  line: number;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Services declared under the top-level `services:` mapping.
+ * A small indentation-based scan rather than a full YAML parser; anchors, merges and
+ * flow-style `services: { ... }` are not expanded.
+ */
+export function parseComposeServices(text: string): ComposeService[] {
+  const services: ComposeService[] = [];
+  const lines = text.split(/\r?\n/);
+  let inServices = false;
+  let serviceIndent: number | undefined;
+  let propIndent: number | undefined;
+  let current: ComposeService | undefined;
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || /^\s*#/.test(line)) return;
+    const indent = line.length - line.trimStart().length;
+    const trimmed = line.trim();
+
+    if (indent === 0) {
+      inServices = /^services:\s*(#.*)?$/.test(trimmed);
+      serviceIndent = undefined;
+      current = undefined;
+      return;
+    }
+    if (!inServices) return;
+
+    if (serviceIndent === undefined) serviceIndent = indent;
+    if (indent === serviceIndent) {
+      const m = trimmed.match(/^("[^"]+"|'[^']+'|[^:\s]+):\s*(#.*)?$/);
+      current = m ? { name: unquote(m[1]), line: index } : undefined;
+      if (current) services.push(current);
+      propIndent = undefined;
+      return;
+    }
+
+    if (!current || indent < serviceIndent) return;
+    // Only direct properties of the service (first level below its key)
+    if (propIndent === undefined) propIndent = indent;
+    if (indent !== propIndent) return;
+
+    const prop = trimmed.match(/^([A-Za-z_]+):\s*(.*)$/);
+    if (!prop) return;
+    const value = prop[2].replace(/\s+#.*$/, "");
+    switch (prop[1]) {
+      case "image":
+        current.image = unquote(value);
+        break;
+      case "build":
+        current.build = true;
+        break;
+      case "container_name":
+        current.containerName = unquote(value);
+        break;
+      case "profiles": {
+        const flow = value.match(/^\[(.*)\]$/);
+        if (flow) current.profiles = flow[1].split(",").map(unquote).filter(Boolean);
+        break;
+      }
+    }
+  });
+
+  return services;
+}
+
+/**
+ * Command line (program + args) for a compose action on one service.
+ * `up` stays attached so the run lasts as long as the service does.
+ */
+export function composeCommand(action: ComposeAction, composeFile: string, service: string): string[] {
+  const base = ["docker", "compose", "-f", composeFile];
+  switch (action) {
+    case "up":
+      return [...base, "up", service];
+    case "down":
+      // `down <service>` needs a recent Compose release; `rm --stop` does the same for one service everywhere
+      return [...base, "rm", "--stop", "--force", service];
+    case "restart":
+      return [...base, "restart", service];
+    case "logs":
+      return [...base, "logs", "--follow", "--tail", "200", service];
+  }
+}
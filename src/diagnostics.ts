@@ -0,0 +1,76 @@
+import * as vscode from "vscode";
+import { parseTree, findNodeAtLocation } from "jsonc-parser";
+import type { ConfigProblem } from "./sources";
+
+// Line/character position of a character offset
+function positionAt(text: string, offset: number): vscode.Position {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lines = before.split("\n");
+  return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+}
+
+// Range of a problem inside its file: the character range, else the JSON path
+// (walking up to the closest existing node), else the start of the file
+function problemRange(text: string, problem: ConfigProblem): vscode.Range {
+  if (problem.offset !== undefined) {
+    return new vscode.Range(positionAt(text, problem.offset), positionAt(text, problem.offset + (problem.length ?? 0)));
+  }
+
+  if (problem.jsonPath) {
+    const root = parseTree(text, [], { allowTrailingComma: true });
+    for (let path = [...problem.jsonPath]; root && path.length; path = path.slice(0, -1)) {
+      const node = findNodeAtLocation(root, path);
+      if (node) {
+        return new vscode.Range(positionAt(text, node.offset), positionAt(text, node.offset + node.length));
+      }
+    }
+  }
+
+  return new vscode.Range(0, 0, 0, 0);
+}
+
+/** Publishes the configuration problems found while loading sources to the Problems panel. */
+export class ConfigDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection("betterRun");
+
+  async update(problems: ConfigProblem[]): Promise<void> {
+    const byUri: Map<string, { uri: vscode.Uri; problems: ConfigProblem[] }> = new Map();
+    for (const problem of problems) {
+      // No file to attach to (settings.json couldn't be located)
+      if (!problem.uri) continue;
+      const key = problem.uri.toString();
+      if (!byUri.has(key)) byUri.set(key, { uri: problem.uri, problems: [] });
+      byUri.get(key)!.problems.push(problem);
+    }
+
+    const entries: [vscode.Uri, vscode.Diagnostic[]][] = [];
+    for (const { uri, problems: fileProblems } of byUri.values()) {
+      let text = "";
+      try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+      } catch {
+        // file vanished since loading; report at the top
+      }
+
+      entries.push([
+        uri,
+        fileProblems.map((problem) => {
+          const diagnostic = new vscode.Diagnostic(
+            problemRange(text, problem),
+            problem.message,
+            problem.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+          );
+          diagnostic.source = "Better Run";
+          return diagnostic;
+        }),
+      ]);
+    }
+
+    this.collection.clear();
+    this.collection.set(entries);
+  }
+
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
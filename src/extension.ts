@@ -2,10 +2,23 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { parseTree, findNodeAtLocation, JSONPath } from "jsonc-parser";
 import { BetterRunTreeProvider } from "./tree";
-import type { LaunchItem, TaskItem, NotebookItem } from "./sources";
-import { loadLaunchesAndTasks } from "./sources";
+import type { LaunchItem, CompoundItem, TaskItem, NotebookItem, ServiceItem, UserTaskArg, UserTaskSpec } from "./sources";
+import { invalidateConfigDirs, loadLaunchesAndTasks, platformTaskSpec } from "./sources";
 import { Storage } from "./storage";
+import { getOutputChannel } from "./output";
+import { SourceWatcher } from "./watcher";
+import { ComposeAction, composeCommand } from "./compose";
+import { BetterRunApi, RunSourceRegistry } from "./api";
+import { ConfigDiagnostics } from "./diagnostics";
+import { VariableResolver } from "./variables";
+import { HistoryEntry, RunHistory, RunKind, RunMode, RunStatus } from "./history";
+import { QuickRunTarget, showQuickRun } from "./quickRun";
+import { parseFilter } from "./filter";
+import { SessionTracker } from "./sessions";
+import { RunStatusBar, SHOW_RUN_STATUS_COMMAND, showRunStatus } from "./statusBar";
+import { LaunchOverrides, LaunchVariant, applyOverrides, promptOverrides, variantOverrides } from "./variants";
 
 
 type LaunchArg =
@@ -13,6 +26,11 @@ type LaunchArg =
   | { kind: "launch"; item: LaunchItem }
   | { item: LaunchItem };
 
+type CompoundArg =
+  | CompoundItem
+  | { kind: "compound"; item: CompoundItem }
+  | { item: CompoundItem };
+
 type TaskArg =
   | TaskItem
   | { kind: "task"; item: TaskItem }
@@ -29,6 +47,36 @@ function unwrapLaunch(arg: unknown): LaunchItem | undefined {
   return undefined;
 }
 
+// Variant nodes carry their base launch as `item`
+function unwrapVariant(arg: unknown): { item: LaunchItem; variant: LaunchVariant } | undefined {
+  if (!arg || typeof arg !== "object") return undefined;
+
+  const a = arg as any;
+  if (a.kind === "launchVariant" && a.variant && a.item?.config) return { item: a.item, variant: a.variant };
+
+  return undefined;
+}
+
+function unwrapCompound(arg: unknown): CompoundItem | undefined {
+  if (!arg || typeof arg !== "object") return undefined;
+
+  const a = arg as any;
+  if (typeof a.name === "string" && Array.isArray(a.members)) return a as CompoundItem;
+  if (a.item && typeof a.item.name === "string" && Array.isArray(a.item.members)) return a.item as CompoundItem;
+
+  return undefined;
+}
+
+function unwrapService(arg: unknown): ServiceItem | undefined {
+  if (!arg || typeof arg !== "object") return undefined;
+
+  const a = arg as any;
+  if (typeof a.name === "string" && a.composeFile) return a as ServiceItem;
+  if (a.item && typeof a.item.name === "string" && a.item.composeFile) return a.item as ServiceItem;
+
+  return undefined;
+}
+
 function unwrapTask(arg: unknown): TaskItem | undefined {
   if (!arg || typeof arg !== "object") return undefined;
 
@@ -41,131 +89,584 @@ function unwrapTask(arg: unknown): TaskItem | undefined {
 
 const VIEW_ID = "betterRun.runs";
 
+// Task type contributed in package.json (taskDefinitions) for tasks Better Run creates itself
+const BETTER_RUN_TASK_TYPE = "betterRun";
+
+// Definition of the tasks Better Run creates: the tree item they run and, once started, the run
+interface BetterRunTaskDefinition extends vscode.TaskDefinition {
+  type: typeof BETTER_RUN_TASK_TYPE;
+  id: string;
+  runId?: string;
+}
+
+function isBetterRunTask(task: vscode.Task): task is vscode.Task & { definition: BetterRunTaskDefinition } {
+  return task.definition.type === BETTER_RUN_TASK_TYPE;
+}
+
+// tasks.json tasks carry their label in the definition as well
+interface LabeledTaskDefinition extends vscode.TaskDefinition {
+  label?: string;
+}
+
+// Move the cursor to an item's definition: the exact JSON node or line when known,
+// otherwise the first line mentioning the name
+function revealDefinition(
+  editor: vscode.TextEditor,
+  jsonPath: JSONPath | undefined,
+  searchName: string | undefined,
+  line?: number
+): void {
+  const document = editor.document;
+  const text = document.getText();
+
+  let position: vscode.Position | undefined;
+  if (line !== undefined && line < document.lineCount) {
+    position = new vscode.Position(line, 0);
+  } else if (jsonPath) {
+    const root = parseTree(text);
+    const node = root ? findNodeAtLocation(root, jsonPath) : undefined;
+    if (node) position = document.positionAt(node.offset);
+  }
+
+  if (!position && searchName) {
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].includes(`"${searchName}"`) || lines[i].includes(`'${searchName}'`)) {
+        position = new vscode.Position(i, 0);
+        break;
+      }
+    }
+  }
+
+  if (position) {
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    editor.selection = new vscode.Selection(position, position);
+  }
+}
+
 // Create output channel for debugging
 let outputChannel: vscode.OutputChannel | undefined;
 
+function venvBinDir(venvPath: string): string {
+  return path.join(venvPath, process.platform === 'win32' ? 'Scripts' : 'bin');
+}
+
+function venvPythonPath(venvPath: string): string {
+  return path.join(venvBinDir(venvPath), process.platform === 'win32' ? 'python.exe' : 'python');
+}
+
+// Point a launch config at the venv attached to the item, if any
+function applyAttachedVenv(cfg: any, item: LaunchItem, context: vscode.ExtensionContext): void {
+  const venv = new Storage(context).getAttachedVenv(item.id);
+  if (venv) cfg.python = venvPythonPath(venv);
+}
+
+// Terminal environment activating the venv attached to the task, if any
+function attachedVenvEnv(item: TaskItem, context: vscode.ExtensionContext): Record<string, string> | undefined {
+  const venv = new Storage(context).getAttachedVenv(item.id);
+  if (!venv) return undefined;
+  return {
+    VIRTUAL_ENV: venv,
+    PATH: `${venvBinDir(venv)}${path.delimiter}${process.env.PATH ?? ""}`,
+  };
+}
+
 // Track last executed items for rerun commands
 let lastLaunch: LaunchItem | undefined; // Shared pool for both run and debug
+let lastLaunchOverrides: LaunchOverrides | undefined; // Args/env the last launch ran with
 let lastTask: TaskItem | undefined;
 
+// Providers registered by other extensions through the API returned from activate()
+let runSources: RunSourceRegistry | undefined;
+
+// Every execution is recorded in the run history (created in activate)
+let runHistory: RunHistory | undefined;
+
+// Maps debug sessions back to the launch and run that started them (created in activate)
+let sessionTracker: SessionTracker | undefined;
+
+function recordRunStart(
+  item: LaunchItem | CompoundItem | TaskItem,
+  kind: RunKind,
+  mode: RunMode,
+  overrides?: LaunchOverrides
+): string | undefined {
+  const name = "name" in item ? item.name : item.label;
+  const label = overrides ? `${name} (${overrides.variant ?? "with overrides"})` : name;
+  return runHistory?.start({ id: item.id, label, workspaceFolder: item.workspaceFolder }, kind, mode, overrides);
+}
+
+function recordRunEnd(runId: string | undefined, status: Exclude<RunStatus, "running">, exitCode?: number): void {
+  if (runId) runHistory?.finish(runId, status, exitCode);
+}
+
+// Items from a registered run source are executed by their provider; running until it settles
+async function executeContributed(
+  item: LaunchItem | TaskItem,
+  debug: boolean,
+  provider: BetterRunTreeProvider
+): Promise<void> {
+  if (!item.contributed || !runSources) return;
+
+  const setRunning = (running: boolean) =>
+    item.contributed!.item.kind === "launch"
+      ? provider.setLaunchRunning(item.id, running)
+      : provider.setTaskRunning(item.id, running);
+
+  setRunning(true);
+  const runId = recordRunStart(item, item.contributed.item.kind === "launch" ? "launch" : "task", debug ? "debug" : "run");
+  try {
+    await runSources.execute(item.contributed, { debug });
+    recordRunEnd(runId, "ended");
+  } catch (error) {
+    recordRunEnd(runId, "failed");
+    vscode.window.showErrorMessage(`Failed to run '${item.contributed.item.label}': ${error}`);
+  } finally {
+    setRunning(false);
+  }
+}
+
+// Starts a launch configuration as a new run of the item. Each run counts as one running
+// instance until its last debug session (child sessions included) has terminated.
+async function startTrackedLaunch(
+  item: LaunchItem,
+  cfg: vscode.DebugConfiguration,
+  mode: RunMode,
+  provider: BetterRunTreeProvider,
+  overrides?: LaunchOverrides
+): Promise<void> {
+  if (!sessionTracker) return;
+
+  // Set loading state
+  provider.setLaunchRunning(item.id, true);
+  const runId = recordRunStart(item, "launch", mode, overrides);
+
+  let started: string | undefined;
+  let error: unknown;
+  try {
+    started = await sessionTracker.start(item.id, item.workspaceFolder, cfg, () => {
+      provider.setLaunchRunning(item.id, false);
+      recordRunEnd(runId, "ended");
+    });
+  } catch (err) {
+    // startDebugging rejected (e.g. an unknown debug type); undo the instance counted above
+    error = err;
+  }
+  if (!started) {
+    provider.setLaunchRunning(item.id, false);
+    recordRunEnd(runId, "failed");
+    vscode.window.showErrorMessage(`Failed to ${mode} '${item.name}'${error ? `: ${error instanceof Error ? error.message : error}` : "."}`);
+  }
+}
+
 async function executeDebugLaunch(
   item: LaunchItem,
   provider: BetterRunTreeProvider,
-  context: vscode.ExtensionContext
+  context: vscode.ExtensionContext,
+  overrides?: LaunchOverrides
 ): Promise<void> {
   if (!item?.config) return;
 
   // Track as last launch (shared pool for both run and debug)
   lastLaunch = item;
+  lastLaunchOverrides = overrides;
 
-  // Set loading state
-  provider.setLaunchRunning(item.id, true);
+  if (item.contributed) {
+    await executeContributed(item, true, provider);
+    return;
+  }
 
   // Use the config object directly (works even if it's NOT in launch.json)
   const cfg = { ...item.config };
 
   // Make sure it has a name (VS Code uses this in UI)
   cfg.name = cfg.name || item.name;
-
-  const folder = item.workspaceFolder; // undefined allowed (user/global)
-  
-  // Set up session tracking BEFORE starting debugging
-  let sessionMatched = false;
-  const terminateDisposable = vscode.debug.onDidTerminateDebugSession((terminated) => {
-    // Check if this session matches our launch
-    if (terminated.name === item.name || terminated.configuration?.name === item.name) {
-      provider.setLaunchRunning(item.id, false);
-      sessionMatched = true;
-      terminateDisposable.dispose();
-      startDisposable.dispose();
-    }
-  });
-  
-  const startDisposable = vscode.debug.onDidStartDebugSession((session) => {
-    // Mark that we found a matching session
-    if (session.name === item.name || session.configuration?.name === item.name) {
-      sessionMatched = true;
-    }
-  });
-  
-  context.subscriptions.push(terminateDisposable, startDisposable);
-
-  const ok = await vscode.debug.startDebugging(folder, cfg);
-
-  if (!ok) {
-    provider.setLaunchRunning(item.id, false);
-    terminateDisposable.dispose();
-    startDisposable.dispose();
-    vscode.window.showErrorMessage(`Failed to debug '${item.name}'.`);
-  } else {
-    // Fallback: if no session starts within 3 seconds, clear loading state
-    setTimeout(() => {
-      if (!sessionMatched) {
-        const session = vscode.debug.activeDebugSession;
-        if (!session || (session.name !== item.name && session.configuration?.name !== item.name)) {
-          provider.setLaunchRunning(item.id, false);
-        }
-      }
-    }, 3000);
-  }
+  applyAttachedVenv(cfg, item, context);
+  if (overrides) applyOverrides(cfg, overrides);
+  await startTrackedLaunch(item, cfg, "debug", provider, overrides);
 }
 
 async function executeRunLaunch(
   item: LaunchItem,
   provider: BetterRunTreeProvider,
-  context: vscode.ExtensionContext
+  context: vscode.ExtensionContext,
+  overrides?: LaunchOverrides
 ): Promise<void> {
   if (!item?.config) return;
 
   // Track as last launch (shared pool for both run and debug)
   lastLaunch = item;
+  lastLaunchOverrides = overrides;
 
-  // Set loading state
-  provider.setLaunchRunning(item.id, true);
+  if (item.contributed) {
+    await executeContributed(item, false, provider);
+    return;
+  }
 
   const cfg = { ...item.config, name: item.name, noDebug: true };
-  const folder = item.workspaceFolder; // undefined allowed (user/global)
-  
-  // Set up session tracking BEFORE starting
-  let sessionMatched = false;
-  const terminateDisposable = vscode.debug.onDidTerminateDebugSession((terminated) => {
-    // Check if this session matches our launch
-    if (terminated.name === item.name || terminated.configuration?.name === item.name) {
+  applyAttachedVenv(cfg, item, context);
+  if (overrides) applyOverrides(cfg, overrides);
+  await startTrackedLaunch(item, cfg, "run", provider, overrides);
+}
+
+async function executeCompound(
+  item: CompoundItem,
+  noDebug: boolean,
+  provider: BetterRunTreeProvider,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  if (!item) return;
+
+  if (!item.members.length) {
+    vscode.window.showWarningMessage(`Compound '${item.name}' has no resolvable configurations.`);
+    return;
+  }
+  if (item.missingMembers.length) {
+    vscode.window.showWarningMessage(
+      `Compound '${item.name}': skipping missing configurations: ${item.missingMembers.join(", ")}`
+    );
+  }
+
+  // Set loading state - stays on until every member session has terminated
+  provider.setLaunchRunning(item.id, true);
+  const runId = recordRunStart(item, "compound", noDebug ? "run" : "debug");
+
+  // Members that failed to start
+  const failed: string[] = [];
+
+  // Member runs still going, and the ids of those started
+  let pending = item.members.length;
+  const memberRuns: string[] = [];
+  let stopping = false;
+
+  const memberDone = () => {
+    pending--;
+    if (!pending) {
       provider.setLaunchRunning(item.id, false);
-      sessionMatched = true;
-      terminateDisposable.dispose();
-      startDisposable.dispose();
+      recordRunEnd(runId, failed.length === item.members.length ? "failed" : "ended");
     }
-  });
-  
-  const startDisposable = vscode.debug.onDidStartDebugSession((session) => {
-    // Mark that we found a matching session
-    if (session.name === item.name || session.configuration?.name === item.name) {
-      sessionMatched = true;
+  };
+
+  const memberEnded = () => {
+    // stopAll: the end of one member stops the rest of the compound
+    if (item.stopAll && !stopping) {
+      stopping = true;
+      for (const id of memberRuns) void sessionTracker?.stop(id);
     }
-  });
-  
-  context.subscriptions.push(terminateDisposable, startDisposable);
+    memberDone();
+  };
+
+  for (const member of item.members) {
+    const cfg = noDebug
+      ? { ...member.config, name: member.name, noDebug: true }
+      : { ...member.config, name: member.config?.name || member.name };
+    applyAttachedVenv(cfg, member, context);
+    // Member runs belong to the compound, so stopping or restarting it covers all of them
+    let memberRun: string | undefined;
+    try {
+      memberRun = await sessionTracker?.start(item.id, member.workspaceFolder, cfg, memberEnded);
+    } catch (err) {
+      outputChannel?.appendLine(`Failed to start '${member.name}' from compound '${item.name}': ${err instanceof Error ? err.message : err}`);
+    }
+    if (memberRun) {
+      memberRuns.push(memberRun);
+    } else {
+      failed.push(member.name);
+      memberDone();
+    }
+  }
 
-  const ok = await vscode.debug.startDebugging(folder, cfg);
-  if (!ok) {
-    provider.setLaunchRunning(item.id, false);
-    terminateDisposable.dispose();
-    startDisposable.dispose();
-    vscode.window.showErrorMessage(`Failed to run '${item.name}'.`);
+  if (failed.length) {
+    vscode.window.showErrorMessage(
+      `Failed to ${noDebug ? "run" : "debug"} '${failed.join("', '")}' from compound '${item.name}'.`
+    );
+  }
+}
+
+// Build a runnable task from a nested package tasks.json entry (shell/process tasks only)
+function buildPackageTask(item: TaskItem): vscode.Task | undefined {
+  const def = item.definition;
+  const packageRoot = item.source.packageRoot;
+  if (!def || !packageRoot || typeof def.command !== "string") return undefined;
+  if (def.type && def.type !== "shell" && def.type !== "process") return undefined;
+
+  const args: string[] = (Array.isArray(def.args) ? def.args : []).map((a: any) =>
+    typeof a === "string" ? a : String(a?.value ?? "")
+  );
+  const options = { cwd: def.options?.cwd ?? packageRoot.fsPath, env: def.options?.env };
+  const execution = def.type === "process"
+    ? new vscode.ProcessExecution(def.command, args, options)
+    : new vscode.ShellExecution(def.command, args, options);
+
+  return new vscode.Task(
+    { type: BETTER_RUN_TASK_TYPE, id: item.id } satisfies BetterRunTaskDefinition,
+    item.workspaceFolder ?? vscode.TaskScope.Workspace,
+    item.label,
+    item.source.packagePath ?? "Better Run",
+    execution,
+    def.problemMatcher ?? []
+  );
+}
+
+const REVEAL_KINDS: Record<string, vscode.TaskRevealKind> = {
+  always: vscode.TaskRevealKind.Always,
+  silent: vscode.TaskRevealKind.Silent,
+  never: vscode.TaskRevealKind.Never,
+};
+
+const PANEL_KINDS: Record<string, vscode.TaskPanelKind> = {
+  shared: vscode.TaskPanelKind.Shared,
+  dedicated: vscode.TaskPanelKind.Dedicated,
+  new: vscode.TaskPanelKind.New,
+};
+
+const TASK_GROUPS: Record<string, vscode.TaskGroup> = {
+  build: vscode.TaskGroup.Build,
+  test: vscode.TaskGroup.Test,
+  clean: vscode.TaskGroup.Clean,
+  rebuild: vscode.TaskGroup.Rebuild,
+};
+
+const SHELL_QUOTING: Record<string, vscode.ShellQuoting> = {
+  escape: vscode.ShellQuoting.Escape,
+  strong: vscode.ShellQuoting.Strong,
+  weak: vscode.ShellQuoting.Weak,
+};
+
+/**
+ * A user settings task (or build file / Python target) as a VS Code task, following the
+ * tasks.json schema: shell or process, args, options, presentation, group, problem matchers and
+ * per-OS overrides. Variables are resolved here; undefined when an input prompt was cancelled.
+ */
+async function buildUserTask(
+  item: TaskItem,
+  resolver: VariableResolver,
+  context: vscode.ExtensionContext
+): Promise<vscode.Task | undefined> {
+  const spec: UserTaskSpec = platformTaskSpec(item.userTask!);
+
+  const rawArgs: UserTaskArg[] = Array.isArray(spec.args) ? spec.args : [];
+  const argValues = rawArgs.map((a) => (typeof a === "string" ? a : String(a?.value ?? "")));
+  const envEntries = Object.entries(spec.options?.env ?? {});
+  const cwdValue = spec.options?.cwd ?? spec.cwd;
+
+  const resolved = await resolver.resolveAll([
+    spec.command,
+    ...argValues,
+    ...envEntries.map(([, value]) => String(value)),
+    ...(cwdValue ? [cwdValue] : []),
+  ]);
+  if (!resolved) return undefined;
+
+  const command = resolved[0];
+  const args = resolved.slice(1, 1 + argValues.length);
+  const envValues = resolved.slice(1 + argValues.length, 1 + argValues.length + envEntries.length);
+  const cwd = cwdValue ? resolved[resolved.length - 1] : undefined;
+
+  // The attached venv goes first so the task's own env can still override PATH etc.
+  const env: Record<string, string> = { ...attachedVenvEnv(item, context) };
+  envEntries.forEach(([key], index) => (env[key] = envValues[index]));
+
+  let execution: vscode.ShellExecution | vscode.ProcessExecution;
+  if (spec.type === "process") {
+    execution = new vscode.ProcessExecution(command, args, { cwd, env });
   } else {
-    // Fallback: if no session starts within 3 seconds, clear loading state
-    setTimeout(() => {
-      if (!sessionMatched) {
-        const session = vscode.debug.activeDebugSession;
-        if (!session || (session.name !== item.name && session.configuration?.name !== item.name)) {
-          provider.setLaunchRunning(item.id, false);
-        }
-      }
-    }, 3000);
+    const shell = spec.options?.shell;
+    const options: vscode.ShellExecutionOptions = {
+      cwd,
+      env,
+      executable: shell?.executable,
+      shellArgs: shell?.args,
+    };
+    execution = args.length
+      ? new vscode.ShellExecution(
+          command,
+          args.map((value, index) => {
+            const raw = rawArgs[index];
+            const quoting = typeof raw === "object" && raw.quoting ? SHELL_QUOTING[raw.quoting] : undefined;
+            return quoting !== undefined ? { value, quoting } : value;
+          }),
+          options
+        )
+      : new vscode.ShellExecution(command, options);
+  }
+
+  const problemMatchers = spec.problemMatcher === undefined
+    ? []
+    : (Array.isArray(spec.problemMatcher) ? spec.problemMatcher : [spec.problemMatcher]).filter(
+        (m): m is string => typeof m === "string"
+      );
+
+  const task = new vscode.Task(
+    { type: BETTER_RUN_TASK_TYPE, id: item.id } satisfies BetterRunTaskDefinition,
+    item.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0] ?? vscode.TaskScope.Workspace,
+    spec.label,
+    "Better Run",
+    execution,
+    problemMatchers
+  );
+
+  const presentation = spec.presentation;
+  if (presentation) {
+    task.presentationOptions = {
+      reveal: presentation.reveal ? REVEAL_KINDS[presentation.reveal] : undefined,
+      echo: presentation.echo,
+      focus: presentation.focus,
+      panel: presentation.panel ? PANEL_KINDS[presentation.panel] : undefined,
+      clear: presentation.clear,
+      showReuseMessage: presentation.showReuseMessage,
+    };
+  }
+
+  const groupKind = typeof spec.group === "string" ? spec.group : spec.group?.kind;
+  if (groupKind && TASK_GROUPS[groupKind]) task.group = TASK_GROUPS[groupKind];
+
+  return task;
+}
+
+// Tags each execution of a Better Run task, so concurrent runs of one item are told apart
+let taskRunCounter = 0;
+
+// Run a task Better Run built itself (type "betterRun", definition id = item id) and record
+// its exit code and duration on the tree item once it ends
+async function executeBetterRunTask(
+  task: vscode.Task,
+  item: TaskItem,
+  provider: BetterRunTreeProvider,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const runKey = `${Date.now().toString(36)}-${(taskRunCounter++).toString(36)}`;
+  task.definition.runId = runKey;
+  const isOurs = (e: { execution: vscode.TaskExecution }) =>
+    isBetterRunTask(e.execution.task) && e.execution.task.definition.runId === runKey;
+
+  const startedAt = Date.now();
+  const runId = recordRunStart(item, "task", "run");
+  let exitCode: number | undefined;
+  const processDisposable = vscode.tasks.onDidEndTaskProcess((e) => {
+    if (isOurs(e)) exitCode = e.exitCode;
+  });
+  // onDidEndTask also fires when the process never started (e.g. bad cwd)
+  const endDisposable = vscode.tasks.onDidEndTask((e) => {
+    if (!isOurs(e)) return;
+    // Another run of the same item keeps the spinner going
+    const othersRunning = taskExecutionsOf(item).some((x) => x.task.definition.runId !== runKey);
+    if (!othersRunning) provider.setTaskRunning(item.id, false);
+    provider.setTaskResult(item.id, { exitCode, durationMs: Date.now() - startedAt });
+    recordRunEnd(runId, exitCode === 0 ? "succeeded" : "failed", exitCode);
+    processDisposable.dispose();
+    endDisposable.dispose();
+  });
+  context.subscriptions.push(processDisposable, endDisposable);
+
+  try {
+    await vscode.tasks.executeTask(task);
+  } catch (error) {
+    processDisposable.dispose();
+    endDisposable.dispose();
+    provider.setTaskRunning(item.id, false);
+    recordRunEnd(runId, "failed");
+    vscode.window.showErrorMessage(`Failed to run '${item.label}': ${error instanceof Error ? error.message : error}`);
   }
 }
 
+// True when a running task is the one behind a tree item (tasks.json tasks are matched by label)
+function isTaskForItem(task: vscode.Task, item: TaskItem): boolean {
+  const sameLabel = task.name === item.label || (task.definition as LabeledTaskDefinition).label === item.label;
+  if (!sameLabel) return false;
+  return !item.detectedTask || task.source === item.detectedTask.source;
+}
+
+// Running executions of a task item (our own tasks by id, others like isTaskForItem)
+function taskExecutionsOf(item: TaskItem): vscode.TaskExecution[] {
+  return vscode.tasks.taskExecutions.filter((e) =>
+    isBetterRunTask(e.task) ? e.task.definition.id === item.id : isTaskForItem(e.task, item)
+  );
+}
+
+// Terminates a task item's executions; resolves once they have all ended (or after a timeout)
+async function stopTask(item: TaskItem): Promise<void> {
+  const executions = taskExecutionsOf(item);
+  if (!executions.length) return;
+
+  // User settings tasks are ours to clean up: their terminals go away with them
+  const terminals = item.userTask
+    ? executions.map((e) => taskTerminals.get(e)).filter((t): t is vscode.Terminal => !!t)
+    : [];
+
+  const ended = new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      endDisposable.dispose();
+      resolve();
+    };
+    const timer = setTimeout(done, 10000);
+    const endDisposable = vscode.tasks.onDidEndTask(() => {
+      if (!taskExecutionsOf(item).length) done();
+    });
+  });
+  executions.forEach((e) => e.terminate());
+  await ended;
+  terminals.forEach((t) => t.dispose());
+}
+
+// Terminal of each running task execution. Concurrent runs of a task share its name, so the
+// terminal is found by the process id reported when the execution's process starts.
+const taskTerminals = new Map<vscode.TaskExecution, vscode.Terminal>();
+
+function trackTaskTerminals(): vscode.Disposable {
+  return vscode.Disposable.from(
+    vscode.tasks.onDidStartTaskProcess(async (e) => {
+      for (const terminal of vscode.window.terminals) {
+        if ((await terminal.processId) !== e.processId) continue;
+        // The execution may have ended while the process ids were looked up
+        if (vscode.tasks.taskExecutions.includes(e.execution)) taskTerminals.set(e.execution, terminal);
+        return;
+      }
+    }),
+    vscode.tasks.onDidEndTask((e) => taskTerminals.delete(e.execution)),
+    new vscode.Disposable(() => taskTerminals.clear())
+  );
+}
+
+// While a composite task runs, VS Code starts each dependency as its own task execution;
+// mirror their progress on the dependency nodes. Dispose to clear the states.
+function trackDependencies(item: TaskItem, provider: BetterRunTreeProvider): vscode.Disposable {
+  const deps: TaskItem[] = [];
+  const collect = (task: TaskItem) => {
+    for (const dep of task.dependencies ?? []) {
+      if (deps.some((d) => d.id === dep.id) || dep.id === item.id) continue;
+      deps.push(dep);
+      collect(dep);
+    }
+  };
+  collect(item);
+
+  const failed = new Set<string>();
+  const disposables = [
+    vscode.tasks.onDidStartTask((e) => {
+      for (const dep of deps.filter((d) => isTaskForItem(e.execution.task, d))) {
+        failed.delete(dep.id);
+        provider.setDependencyState(dep.id, "running");
+      }
+    }),
+    vscode.tasks.onDidEndTaskProcess((e) => {
+      if (!e.exitCode) return;
+      for (const dep of deps.filter((d) => isTaskForItem(e.execution.task, d))) failed.add(dep.id);
+    }),
+    vscode.tasks.onDidEndTask((e) => {
+      for (const dep of deps.filter((d) => isTaskForItem(e.execution.task, d))) {
+        provider.setDependencyState(dep.id, failed.has(dep.id) ? "failed" : "succeeded");
+      }
+    }),
+  ];
+
+  return new vscode.Disposable(() => {
+    disposables.forEach((d) => d.dispose());
+    deps.forEach((dep) => provider.setDependencyState(dep.id, undefined));
+  });
+}
+
 async function executeTask(
   item: TaskItem,
   provider: BetterRunTreeProvider,
@@ -176,106 +677,62 @@ async function executeTask(
   // Track as last task
   lastTask = item;
 
+  if (item.contributed) {
+    await executeContributed(item, false, provider);
+    return;
+  }
+
   // Set loading state
   provider.setTaskRunning(item.id, true);
 
   // User settings tasks: run via terminal
   if (item.userTask) {
-    const isWindows = process.platform === 'win32';
-    const tmpDir = os.tmpdir();
-    const markerFile = path.join(tmpDir, `better-run-${item.id.replace(/[^a-zA-Z0-9]/g, '-')}.done`);
-    
-    // Create terminal with a unique name to track it
-    const terminalName = `Better Run: ${item.userTask.label}`;
-    const terminal = vscode.window.createTerminal({
-      name: terminalName,
-      cwd: item.userTask.cwd,
-    });
-    terminal.show(true);
-    
-    // Wrap command to write completion marker when done
-    // This allows us to detect when the process actually finishes
-    let wrappedCommand: string;
-    if (isWindows) {
-      // Windows: run command, then create marker file
-      wrappedCommand = `${item.userTask.command} && echo. > "${markerFile}"`;
-    } else {
-      // Unix/macOS: run command, then create marker file
-      wrappedCommand = `(${item.userTask.command}); touch "${markerFile}"`;
-    }
-    
-    // Clean up any existing marker file
+    // ${workspaceFolder}, ${file}, ${input:...} etc. are resolved before anything is started
+    let task: vscode.Task | undefined;
     try {
-      if (fs.existsSync(markerFile)) {
-        fs.unlinkSync(markerFile);
-      }
-    } catch {
-      // Ignore errors
+      task = await buildUserTask(item, new VariableResolver(item.workspaceFolder), context);
+    } catch (error) {
+      provider.setTaskRunning(item.id, false);
+      vscode.window.showErrorMessage(`Failed to run '${item.label}': ${error instanceof Error ? error.message : error}`);
+      return;
     }
-    
-    // Send the wrapped command
-    terminal.sendText(wrappedCommand, true);
-    
-    // Poll for completion marker file
-    const clearLoadingState = () => {
+    if (!task) {
+      // An input was cancelled
       provider.setTaskRunning(item.id, false);
-      // Clean up marker file
-      try {
-        if (fs.existsSync(markerFile)) {
-          fs.unlinkSync(markerFile);
-        }
-      } catch {
-        // Ignore cleanup errors
-      }
-    };
-    
-    // Poll for marker file every 500ms
-    let pollCount = 0;
-    const maxPolls = 600; // Poll for up to 5 minutes (600 * 500ms)
-    const pollInterval = setInterval(() => {
-      pollCount++;
-      
-      try {
-        if (fs.existsSync(markerFile)) {
-          // Marker file exists - command completed!
-          clearInterval(pollInterval);
-          clearLoadingState();
-          return;
-        }
-      } catch {
-        // Ignore file check errors
-      }
-      
-      // Fallback: stop polling after max attempts
-      if (pollCount >= maxPolls) {
-        clearInterval(pollInterval);
-        clearLoadingState();
-      }
-    }, 500);
-    
-    // Also listen for terminal close as a backup
-    const closeDisposable = vscode.window.onDidCloseTerminal((closedTerminal) => {
-      if (closedTerminal === terminal) {
-        clearInterval(pollInterval);
-        clearLoadingState();
-        closeDisposable.dispose();
-      }
-    });
-    context.subscriptions.push(closeDisposable);
-    
+      return;
+    }
+
+    await executeBetterRunTask(task, item, provider, context);
+    return;
+  }
+
+  // Nested package tasks.json files are unknown to VS Code's task system; build the task ourselves
+  if (item.source.packageRoot) {
+    const task = buildPackageTask(item);
+    if (!task) {
+      provider.setTaskRunning(item.id, false);
+      vscode.window.showWarningMessage(`Only shell and process tasks can be run from ${item.source.packagePath}: ${item.label}`);
+      return;
+    }
+
+    await executeBetterRunTask(task, item, provider, context);
     return;
   }
 
   // Workspace tasks.json tasks: execute via VS Code task system (match by label)
   const label = item.label;
-  const workspaceFolder = item.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0];
+  // `.code-workspace` tasks are workspace-scoped and must not be narrowed to a folder
+  const workspaceFolder = item.source.isWorkspaceFile
+    ? undefined
+    : item.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0];
 
-  const allTasks = await vscode.tasks.fetchTasks();
+  // Auto-detected tasks carry the provider's task object; tasks.json ones are looked up by label
+  const allTasks = item.detectedTask ? [item.detectedTask] : await vscode.tasks.fetchTasks();
   const candidates = allTasks.filter((t) => {
     const sameLabel =
       t.name === label ||
       // some tasks set label under definition
-      (typeof (t.definition as any)?.label === "string" && (t.definition as any).label === label);
+      (t.definition as LabeledTaskDefinition).label === label;
 
     if (!sameLabel) return false;
 
@@ -298,8 +755,9 @@ async function executeTask(
     return;
   }
 
-  // Prefer task scoped to the same folder
+  // Prefer task scoped to the same folder (or to the workspace for `.code-workspace` tasks)
   const best =
+    (item.source.isWorkspaceFile && candidates.find((t) => t.scope === vscode.TaskScope.Workspace)) ||
     (workspaceFolder &&
       candidates.find((t) => {
         const tFolder =
@@ -310,49 +768,150 @@ async function executeTask(
       })) ||
     candidates[0];
 
-  // Track task execution - set up BEFORE executing
-  let taskMatched = false;
-  const taskEndDisposable = vscode.tasks.onDidEndTask((endEvent) => {
-    // Check if this task matches
-    const taskName = endEvent.execution.task.name;
-    const taskLabel = (endEvent.execution.task.definition as any)?.label;
-    if (taskName === label || taskLabel === label) {
-      provider.setTaskRunning(item.id, false);
-      taskMatched = true;
-      taskEndDisposable.dispose();
-      taskStartDisposable.dispose();
-    }
+  // Events are matched on the execution executeTask returns; ones that arrive before it
+  // resolves are kept until it is known
+  let execution: vscode.TaskExecution | undefined;
+  const runId = recordRunStart(item, "task", "run");
+  // Composite tasks: show which dependency is in progress until the whole task ends
+  const dependencyTracking = item.dependencies?.length ? trackDependencies(item, provider) : undefined;
+  // Composite tasks have no process of their own, so no exit code
+  const exitCodes = new Map<vscode.TaskExecution, number | undefined>();
+  const endedEarly = new Set<vscode.TaskExecution>();
+  const finish = (exitCode: number | undefined) => {
+    provider.setTaskRunning(item.id, false);
+    recordRunEnd(runId, exitCode === undefined ? "ended" : exitCode === 0 ? "succeeded" : "failed", exitCode);
+    taskEndDisposable.dispose();
+    processDisposable.dispose();
+    dependencyTracking?.dispose();
+  };
+  const processDisposable = vscode.tasks.onDidEndTaskProcess((e) => {
+    if (execution ? e.execution === execution : isTaskForItem(e.execution.task, item)) exitCodes.set(e.execution, e.exitCode);
   });
-  
-  const taskStartDisposable = vscode.tasks.onDidStartTask((e) => {
-    // Mark that we found a matching task
-    const taskName = e.execution.task.name;
-    const taskLabel = (e.execution.task.definition as any)?.label;
-    if (taskName === label || taskLabel === label) {
-      taskMatched = true;
+  const taskEndDisposable = vscode.tasks.onDidEndTask((e) => {
+    if (!execution) {
+      if (isTaskForItem(e.execution.task, item)) endedEarly.add(e.execution);
+    } else if (e.execution === execution) {
+      finish(exitCodes.get(execution));
     }
   });
-  
-  context.subscriptions.push(taskStartDisposable, taskEndDisposable);
 
-  await vscode.tasks.executeTask(best);
-  
-  // Fallback: clear loading state after 60 seconds if task doesn't end
-  setTimeout(() => {
-    if (!taskMatched) {
-      provider.setTaskRunning(item.id, false);
-    }
-  }, 60000);
+  context.subscriptions.push(taskEndDisposable, processDisposable);
+  if (dependencyTracking) context.subscriptions.push(dependencyTracking);
+
+  try {
+    execution = await vscode.tasks.executeTask(best);
+  } catch (error) {
+    taskEndDisposable.dispose();
+    processDisposable.dispose();
+    // Nothing will end, so clear the dependency nodes now
+    dependencyTracking?.dispose();
+    provider.setTaskRunning(item.id, false);
+    recordRunEnd(runId, "failed");
+    vscode.window.showErrorMessage(`Failed to run '${item.label}': ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+  if (endedEarly.has(execution)) finish(exitCodes.get(execution));
+}
+
+async function executeComposeAction(
+  item: ServiceItem,
+  action: ComposeAction,
+  provider: BetterRunTreeProvider,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const [command, ...args] = composeCommand(action, item.composeFile.fsPath, item.name);
+  const task = new vscode.Task(
+    { type: BETTER_RUN_TASK_TYPE, id: `${item.id}::${action}` } satisfies BetterRunTaskDefinition,
+    item.workspaceFolder,
+    `compose ${action}: ${item.name}`,
+    "Better Run",
+    new vscode.ShellExecution(command, args, { cwd: item.workspaceFolder.uri.fsPath })
+  );
+
+  // `up` runs attached, so the service counts as running for as long as that process lives
+  if (action === "up") provider.setTaskRunning(item.id, true);
+
+  let execution: vscode.TaskExecution;
+  try {
+    execution = await vscode.tasks.executeTask(task);
+  } catch (error) {
+    if (action === "up") provider.setTaskRunning(item.id, false);
+    vscode.window.showErrorMessage(`Failed to run 'docker compose ${action}' for '${item.name}': ${error}`);
+    return;
+  }
+
+  // onDidEndTask also fires when the process never started (no docker on PATH, bad cwd)
+  const endDisposable = vscode.tasks.onDidEndTask((e) => {
+    if (e.execution !== execution) return;
+    if (action === "up" || action === "down") provider.setTaskRunning(item.id, false);
+    endDisposable.dispose();
+  });
+  context.subscriptions.push(endDisposable);
+}
+
+// Refreshes run in the background; a failure is reported in the output channel
+function logRefreshError(err: unknown): void {
+  outputChannel?.appendLine(`Failed to refresh: ${err instanceof Error ? err.message : err}`);
 }
 
-export function activate(context: vscode.ExtensionContext) {
-  outputChannel = vscode.window.createOutputChannel("Better Run");
+export function activate(context: vscode.ExtensionContext): BetterRunApi {
+  outputChannel = getOutputChannel();
   outputChannel.appendLine("Better Run extension activated");
   context.subscriptions.push(outputChannel);
   
   const storage = new Storage(context);
 
-  const provider = new BetterRunTreeProvider(storage, context);
+  const registry = new RunSourceRegistry();
+  runSources = registry;
+  context.subscriptions.push(registry);
+
+  const diagnostics = new ConfigDiagnostics();
+  context.subscriptions.push(diagnostics);
+
+  const tracker = new SessionTracker();
+  sessionTracker = tracker;
+  context.subscriptions.push(tracker);
+  context.subscriptions.push(trackTaskTerminals());
+
+  const history = new RunHistory(storage);
+  runHistory = history;
+  context.subscriptions.push(history);
+
+  const provider = new BetterRunTreeProvider(storage, context, registry, diagnostics, history);
+  context.subscriptions.push(history.onDidChange(() => provider.historyChanged()));
+
+  context.subscriptions.push(new RunStatusBar(provider, history));
+  context.subscriptions.push(
+    vscode.commands.registerCommand(SHOW_RUN_STATUS_COMMAND, async () => showRunStatus(provider, history))
+  );
+
+  // Re-runs a history entry with its original mode, if the item still exists
+  async function rerunHistoryEntry(entry: HistoryEntry): Promise<void> {
+    const item = provider.findItem(entry.itemId);
+    if (!item) {
+      vscode.window.showWarningMessage(`'${entry.label}' no longer exists.`);
+      return;
+    }
+    if (entry.kind === "task") {
+      await executeTask(item as TaskItem, provider, context);
+    } else if (entry.kind === "compound") {
+      await executeCompound(item as CompoundItem, entry.mode === "run", provider, context);
+    } else if (entry.mode === "debug") {
+      await executeDebugLaunch(item as LaunchItem, provider, context, entry.overrides);
+    } else {
+      await executeRunLaunch(item as LaunchItem, provider, context, entry.overrides);
+    }
+  }
+
+  // Last launch/task of this session, else the most recent one in the history (after a reload)
+  const lastLaunchRun = (): { item: LaunchItem; overrides?: LaunchOverrides } | undefined => {
+    if (lastLaunch) return { item: lastLaunch, overrides: lastLaunchOverrides };
+    const entry = history.entries().find((e: HistoryEntry) => e.kind === "launch");
+    const item = entry && (provider.findItem(entry.itemId) as LaunchItem | undefined);
+    return item ? { item, overrides: entry.overrides } : undefined;
+  };
+  const lastTaskItem = (): TaskItem | undefined =>
+    lastTask ?? (provider.findItem(history.last("task")?.itemId ?? "") as TaskItem | undefined);
 
   // IMPORTANT: createTreeView gives you TreeView API + built-in collapse-all button support
   const treeView = vscode.window.createTreeView(VIEW_ID, {
@@ -374,8 +933,11 @@ export function activate(context: vscode.ExtensionContext) {
   type Node = 
     | { kind: "launchTop"; item: LaunchItem }
     | { kind: "launch"; item: LaunchItem }
+    | { kind: "launchVariant"; item: LaunchItem; variant: LaunchVariant }
+    | { kind: "compound"; item: CompoundItem }
     | { kind: "taskTop"; item: TaskItem }
     | { kind: "task"; item: TaskItem }
+    | { kind: "historyEntry"; entry: HistoryEntry }
     | { kind: string; [key: string]: any };
   
   let lastSelection: { nodeId: string; timestamp: number } | undefined;
@@ -398,14 +960,17 @@ export function activate(context: vscode.ExtensionContext) {
       
       if (!node) return;
       
-      // Only handle launches and tasks
-      if (node.kind !== "launch" && node.kind !== "launchTop" && 
-          node.kind !== "task" && node.kind !== "taskTop") {
+      // Only handle launches, tasks and history entries
+      if (node.kind !== "launch" && node.kind !== "launchTop" && node.kind !== "launchVariant" && node.kind !== "compound" &&
+          node.kind !== "task" && node.kind !== "taskTop" && node.kind !== "historyEntry") {
         return;
       }
       
       // Get the item ID for comparison
-      const nodeId = node.item?.id;
+      const nodeId =
+        node.kind === "historyEntry" ? node.entry?.runId
+        : node.kind === "launchVariant" ? node.variant?.id
+        : (node as { item?: { id: string } }).item?.id;
       if (!nodeId) return;
       
       const now = Date.now();
@@ -428,9 +993,15 @@ export function activate(context: vscode.ExtensionContext) {
         if (node.kind === "launch" || node.kind === "launchTop") {
           // For launches, default to run (not debug) on double-click
           await executeRunLaunch(node.item, provider, context);
+        } else if (node.kind === "launchVariant") {
+          await executeRunLaunch(node.item, provider, context, variantOverrides(node.variant));
+        } else if (node.kind === "compound") {
+          await executeCompound(node.item, true, provider, context);
         } else if (node.kind === "task" || node.kind === "taskTop") {
           // For tasks, run the task
           await executeTask(node.item, provider, context);
+        } else if (node.kind === "historyEntry") {
+          await rerunHistoryEntry(node.entry);
         }
       } else {
         // This is a single click - just track it, don't execute
@@ -447,7 +1018,13 @@ export function activate(context: vscode.ExtensionContext) {
 
 
 
-  context.subscriptions.push(vscode.commands.registerCommand("betterRun.refresh", async () => provider.refresh()));
+  // A manual refresh also searches for nested .vscode folders again
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.refresh", async () => {
+      invalidateConfigDirs();
+      await provider.refresh();
+    })
+  );
 
   // Keybindable "collapse all" (works even if the view isn't focused)
   context.subscriptions.push(
@@ -460,28 +1037,45 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.searchByName", async () => {
-      const current = storage.getNameFilter();
+      const current = storage.getFilter();
       const value = await vscode.window.showInputBox({
-        title: "Better Run: Search by Name",
-        prompt: "Filter launches and tasks by name (case-insensitive). Leave empty to clear.",
+        title: "Better Run: Filter",
+        prompt:
+          "Filter by name, or with type: category: source: ws: cmd: program:. Prefix - to exclude, /regex/, ~fuzzy. Leave empty to clear.",
+        placeHolder: "e.g. type:debugpy ws:api -category:legacy",
         value: current,
+        // Invalid regexes still filter (as plain text) but are pointed out while typing
+        validateInput: (text: string) => {
+          const error = parseFilter(text)?.errors[0];
+          return error ? { message: error, severity: vscode.InputBoxValidationSeverity.Warning } : undefined;
+        },
       });
 
       if (value === undefined) return; // cancelled
-      await storage.setNameFilter(value.trim());
+      await storage.setFilter(value.trim());
       await provider.refresh();
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.clearSearch", async () => {
-      await storage.setNameFilter("");
+      await storage.setFilter("");
       await provider.refresh();
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("betterRun.debugLaunch", async (arg: LaunchArg) => {
+    vscode.commands.registerCommand("betterRun.debugLaunch", async (arg: LaunchArg | CompoundArg) => {
+      const variant = unwrapVariant(arg);
+      if (variant) {
+        await executeDebugLaunch(variant.item, provider, context, variantOverrides(variant.variant));
+        return;
+      }
+      const compound = unwrapCompound(arg);
+      if (compound) {
+        await executeCompound(compound, false, provider, context);
+        return;
+      }
       const item = unwrapLaunch(arg);
       if (!item?.config) return;
       await executeDebugLaunch(item, provider, context);
@@ -489,7 +1083,17 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("betterRun.runLaunch", async (arg: LaunchArg) => {
+    vscode.commands.registerCommand("betterRun.runLaunch", async (arg: LaunchArg | CompoundArg) => {
+      const variant = unwrapVariant(arg);
+      if (variant) {
+        await executeRunLaunch(variant.item, provider, context, variantOverrides(variant.variant));
+        return;
+      }
+      const compound = unwrapCompound(arg);
+      if (compound) {
+        await executeCompound(compound, true, provider, context);
+        return;
+      }
       const item = unwrapLaunch(arg);
       if (!item?.config) return;
       await executeRunLaunch(item, provider, context);
@@ -507,31 +1111,259 @@ export function activate(context: vscode.ExtensionContext) {
   // Rerun commands
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.rerunLastTask", async () => {
-      if (!lastTask) {
+      const item = lastTaskItem();
+      if (!item) {
         vscode.window.showInformationMessage("No task has been run yet.");
         return;
       }
-      await executeTask(lastTask, provider, context);
+      await executeTask(item, provider, context);
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.rerunLastLaunch", async () => {
-      if (!lastLaunch) {
+      const last = lastLaunchRun();
+      if (!last) {
         vscode.window.showInformationMessage("No launch has been run or debugged yet.");
         return;
       }
-      await executeRunLaunch(lastLaunch, provider, context);
+      await executeRunLaunch(last.item, provider, context, last.overrides);
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.redebugLastLaunch", async () => {
-      if (!lastLaunch) {
+      const last = lastLaunchRun();
+      if (!last) {
         vscode.window.showInformationMessage("No launch has been run or debugged yet.");
         return;
       }
-      await executeDebugLaunch(lastLaunch, provider, context);
+      await executeDebugLaunch(last.item, provider, context, last.overrides);
+    })
+  );
+
+  // Everything the tree shows (including items contributed through the API), for the Run… quick pick
+  async function loadQuickRunTargets(): Promise<QuickRunTarget[]> {
+    const { launches, compounds, tasks, notebooks } = await loadLaunchesAndTasks();
+    const contributed = await registry.load();
+    return [
+      ...[...launches, ...contributed.launches].map((item: LaunchItem): QuickRunTarget => ({ kind: "launch", item })),
+      ...compounds.map((item: CompoundItem): QuickRunTarget => ({ kind: "compound", item })),
+      ...[...tasks, ...contributed.tasks].map((item: TaskItem): QuickRunTarget => ({ kind: "task", item })),
+      ...notebooks.map((item: NotebookItem): QuickRunTarget => ({ kind: "notebook", item })),
+    ];
+  }
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.quickRun", async () => {
+      // Most recently run first, each item once
+      const recentIds = Array.from(new Set(history.entries().map((e: HistoryEntry) => e.itemId)));
+
+      await showQuickRun(loadQuickRunTargets, recentIds, {
+        run: async (target) => {
+          if (target.kind === "launch") await executeRunLaunch(target.item, provider, context);
+          else if (target.kind === "compound") await executeCompound(target.item, true, provider, context);
+          else if (target.kind === "task") await executeTask(target.item, provider, context);
+          else await vscode.commands.executeCommand("betterRun.openNotebook", target.item);
+        },
+        debug: async (target) => {
+          if (target.kind === "launch") await executeDebugLaunch(target.item, provider, context);
+          else await executeCompound(target.item, false, provider, context);
+        },
+        goToDefinition: async (target) => {
+          await vscode.commands.executeCommand("betterRun.goToSettingsDefinition", target.item);
+        },
+      });
+    })
+  );
+
+  // Stop / restart / show output for running launches, compounds and tasks (the argument is the tree node)
+  type RunningArg = LaunchArg | CompoundArg | TaskArg;
+  const runningTarget = (arg: RunningArg) => {
+    const launch = unwrapCompound(arg) ?? unwrapLaunch(arg);
+    return launch ? { launch } : { task: unwrapTask(arg) };
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.stopItem", async (arg: RunningArg) => {
+      const { launch, task } = runningTarget(arg);
+      if (launch) {
+        await Promise.all(tracker.runsOf(launch.id).map((run) => tracker.stop(run.runId)));
+      } else if (task) {
+        await stopTask(task);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.restartItem", async (arg: RunningArg) => {
+      const { launch, task } = runningTarget(arg);
+      if (launch) {
+        // Restart in the mode of the latest run, with the args/env it was started with
+        const runs = tracker.runsOf(launch.id);
+        const debug = runs.length ? runs[runs.length - 1].debug : false;
+        const overrides = history.entries().find((e: HistoryEntry) => e.itemId === launch.id && e.status === "running")?.overrides;
+        await Promise.all(runs.map((run) => tracker.stop(run.runId)));
+        if ("members" in launch) await executeCompound(launch, !debug, provider, context);
+        else if (debug) await executeDebugLaunch(launch, provider, context, overrides);
+        else await executeRunLaunch(launch, provider, context, overrides);
+      } else if (task) {
+        await stopTask(task);
+        await executeTask(task, provider, context);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.showItemOutput", async (arg: RunningArg) => {
+      const { launch, task } = runningTarget(arg);
+      if (task) {
+        const execution = taskExecutionsOf(task)[0];
+        const terminal = execution && taskTerminals.get(execution);
+        if (terminal) terminal.show();
+        else await vscode.commands.executeCommand("workbench.action.terminal.focus");
+        return;
+      }
+      if (!launch) return;
+
+      // Launches running in a terminal (console: integratedTerminal, node-terminal, ...) show there;
+      // everything else writes to the Debug Console
+      const runs = tracker.runsOf(launch.id);
+      const session = runs[runs.length - 1]?.sessions[0];
+      const terminal = session && vscode.window.terminals.find((t) => t.name === session.name);
+      if (terminal) terminal.show();
+      else await vscode.commands.executeCommand("workbench.debug.action.focusRepl");
+    })
+  );
+
+  // Pin commands (the argument is the tree node of a launch, compound, task or notebook)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.pinItem", async (arg: { item?: { id?: string } }) => {
+      if (!arg?.item?.id) return;
+      await provider.setPinned(arg.item.id, true);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.unpinItem", async (arg: { item?: { id?: string } }) => {
+      if (!arg?.item?.id) return;
+      await provider.setPinned(arg.item.id, false);
+    })
+  );
+
+  // Run with… / Debug with…: one-off args/env overrides, and variants saving them under the launch
+  const overridableLaunch = (arg: LaunchArg): LaunchItem | undefined => {
+    const item = unwrapLaunch(arg);
+    if (!item?.config) return undefined;
+    if (item.contributed) {
+      vscode.window.showWarningMessage(`'${item.name}' is run by the extension providing it; its args and env can't be overridden.`);
+      return undefined;
+    }
+    return item;
+  };
+
+  // A variant without args/env overrides would just be the launch again
+  const noVariantOverrides = (item: LaunchItem): void => {
+    vscode.window.showInformationMessage(`No variant saved: the args and env are the same as '${item.name}'.`);
+  };
+
+  // Name for a new or renamed variant, unique among the launch's variants
+  const promptVariantName = (item: LaunchItem, current?: LaunchVariant) =>
+    vscode.window.showInputBox({
+      title: `Better Run: Variant of '${item.name}'`,
+      prompt: "Name of the variant, shown under the launch",
+      placeHolder: "e.g. Tenant A",
+      value: current?.name,
+      validateInput: (text: string) => {
+        if (!text.trim()) return "Enter a name";
+        const taken = provider.variantsOf(item.id).some((v: LaunchVariant) => v.id !== current?.id && v.name === text.trim());
+        return taken ? `'${item.name}' already has a variant named '${text.trim()}'` : undefined;
+      },
+    });
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.runLaunchWith", async (arg: LaunchArg) => {
+      const item = overridableLaunch(arg);
+      if (!item) return;
+      const answer = await promptOverrides(item, storage, `Run '${item.name}' with`);
+      if (!answer) return;
+      // Nothing changed: a plain run
+      await executeRunLaunch(item, provider, context, answer.overrides);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.debugLaunchWith", async (arg: LaunchArg) => {
+      const item = overridableLaunch(arg);
+      if (!item) return;
+      const answer = await promptOverrides(item, storage, `Debug '${item.name}' with`);
+      if (!answer) return;
+      await executeDebugLaunch(item, provider, context, answer.overrides);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.saveLaunchVariant", async (arg: LaunchArg) => {
+      const item = overridableLaunch(arg);
+      if (!item) return;
+      const overrides = (await promptOverrides(item, storage, `New variant of '${item.name}'`))?.overrides;
+      if (!overrides) return noVariantOverrides(item);
+      const name = await promptVariantName(item);
+      if (!name) return;
+      await provider.saveVariant({
+        id: `variant-${Date.now().toString(36)}`,
+        launchId: item.id,
+        name: name.trim(),
+        args: overrides.args,
+        env: overrides.env,
+      });
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.editLaunchVariant", async (arg: unknown) => {
+      const node = unwrapVariant(arg);
+      if (!node) return;
+      const { item, variant } = node;
+      const overrides = (await promptOverrides(item, storage, `Edit variant '${variant.name}'`, variantOverrides(variant)))?.overrides;
+      if (!overrides) return noVariantOverrides(item);
+      const name = await promptVariantName(item, variant);
+      if (!name) return;
+      await provider.saveVariant({ ...variant, name: name.trim(), args: overrides.args, env: overrides.env });
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.deleteLaunchVariant", async (arg: unknown) => {
+      const node = unwrapVariant(arg);
+      if (!node) return;
+      await provider.deleteVariant(node.variant.id);
+    })
+  );
+
+  // History commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.rerunHistoryEntry", async (arg: { entry: HistoryEntry }) => {
+      if (!arg?.entry) return;
+      await rerunHistoryEntry(arg.entry);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.goToHistoryEntryDefinition", async (arg: { entry: HistoryEntry }) => {
+      if (!arg?.entry) return;
+      const item = provider.findItem(arg.entry.itemId);
+      if (!item) {
+        vscode.window.showWarningMessage(`'${arg.entry.label}' no longer exists.`);
+        return;
+      }
+      await vscode.commands.executeCommand("betterRun.goToSettingsDefinition", item);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("betterRun.clearHistory", async () => {
+      await history.clear();
     })
   );
 
@@ -731,6 +1563,22 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  const composeActions: [string, ComposeAction][] = [
+    ["betterRun.composeUp", "up"],
+    ["betterRun.composeDown", "down"],
+    ["betterRun.composeRestart", "restart"],
+    ["betterRun.composeLogs", "logs"],
+  ];
+  for (const [commandId, action] of composeActions) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(commandId, async (arg: ServiceItem | { item: ServiceItem }) => {
+        const item = unwrapService(arg);
+        if (!item) return;
+        await executeComposeAction(item, action, provider, context);
+      })
+    );
+  }
+
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.openNotebook", async (arg: NotebookItem | { item: NotebookItem }) => {
       const item = (arg && typeof arg === 'object' && 'uri' in arg) ? arg as NotebookItem : (arg as any)?.item;
@@ -830,6 +1678,13 @@ export function activate(context: vscode.ExtensionContext) {
     return venvs;
   }
 
+  // Generated Python project items aren't stored in settings; remember their venv in workspace state
+  async function attachVenvToProjectItem(itemId: string, name: string, venvPath: string): Promise<void> {
+    await storage.setAttachedVenv(itemId, venvPath);
+    await provider.refresh();
+    vscode.window.showInformationMessage(`Attached venv to "${name}"`);
+  }
+
   context.subscriptions.push(
     vscode.commands.registerCommand("betterRun.attachVenv", async (arg: LaunchArg | TaskArg) => {
       const launchItem = unwrapLaunch(arg as LaunchArg);
@@ -842,8 +1697,8 @@ export function activate(context: vscode.ExtensionContext) {
 
       const item = launchItem || taskItem;
       const isPython = launchItem 
-        ? launchItem.config?.type === "python"
-        : taskItem?.userTask?.command?.includes("python") || false;
+        ? launchItem.config?.type === "python" || launchItem.config?.type === "debugpy"
+        : taskItem?.source.isPythonProject || taskItem?.userTask?.command?.includes("python") || false;
 
       if (!isPython) {
         vscode.window.showInformationMessage("Attach venv is only available for Python launches and tasks.");
@@ -860,9 +1715,7 @@ export function activate(context: vscode.ExtensionContext) {
         });
         if (!customPath) return;
 
-        const pythonPath = process.platform === 'win32'
-          ? path.join(customPath, 'Scripts', 'python.exe')
-          : path.join(customPath, 'bin', 'python');
+        const pythonPath = venvPythonPath(customPath);
         
         if (!fs.existsSync(pythonPath)) {
           vscode.window.showErrorMessage(`Python executable not found at ${pythonPath}`);
@@ -870,7 +1723,9 @@ export function activate(context: vscode.ExtensionContext) {
         }
 
         // Update the launch/task with the venv
-        if (launchItem) {
+        if (item?.source.isPythonProject) {
+          await attachVenvToProjectItem(item.id, launchItem?.name ?? taskItem?.label ?? "", customPath);
+        } else if (launchItem) {
           const config = vscode.workspace.getConfiguration("betterRun");
           const currentLaunches = config.get<any[]>("userLaunches") || [];
           const launchIndex = currentLaunches.findIndex((l: any) => 
@@ -900,12 +1755,12 @@ export function activate(context: vscode.ExtensionContext) {
 
       if (!selected) return;
 
-      const pythonPath = process.platform === 'win32'
-        ? path.join(selected.venvPath, 'Scripts', 'python.exe')
-        : path.join(selected.venvPath, 'bin', 'python');
+      const pythonPath = venvPythonPath(selected.venvPath);
 
       // Update the launch/task with the venv
-      if (launchItem) {
+      if (item?.source.isPythonProject) {
+        await attachVenvToProjectItem(item.id, launchItem?.name ?? taskItem?.label ?? "", selected.venvPath);
+      } else if (launchItem) {
         const config = vscode.workspace.getConfiguration("betterRun");
         const currentLaunches = config.get<any[]>("userLaunches") || [];
         const launchIndex = currentLaunches.findIndex((l: any) => 
@@ -942,8 +1797,8 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("betterRun.goToSettingsDefinition", async (arg: LaunchArg | TaskArg) => {
-      const launchItem = unwrapLaunch(arg as LaunchArg);
+    vscode.commands.registerCommand("betterRun.goToSettingsDefinition", async (arg: LaunchArg | CompoundArg | TaskArg) => {
+      const launchItem = unwrapLaunch(arg as LaunchArg) ?? unwrapCompound(arg as CompoundArg);
       const taskItem = unwrapTask(arg as TaskArg);
       
       if (!launchItem && !taskItem) {
@@ -953,6 +1808,9 @@ export function activate(context: vscode.ExtensionContext) {
 
       const item = launchItem || taskItem;
       const source = launchItem?.source || taskItem?.source;
+      const jsonPath = launchItem?.jsonPath ?? taskItem?.jsonPath;
+      const searchName = launchItem ? launchItem.name : taskItem?.label;
+      const line = taskItem?.line;
 
       if (!source) {
         vscode.window.showErrorMessage("Could not find source for this item.");
@@ -960,56 +1818,32 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       // If it's from user settings, open settings.json
-      if (source.isUserSettings && source.uri) {
+      if (source.isUserSettings) {
         try {
-          const document = await vscode.workspace.openTextDocument(source.uri);
-          await vscode.window.showTextDocument(document);
+          if (source.uri) {
+            const document = await vscode.workspace.openTextDocument(source.uri);
+            await vscode.window.showTextDocument(document);
+          } else {
+            // settings.json wasn't found on disk - let the editor open it for us
+            await vscode.commands.executeCommand("workbench.action.openSettingsJson");
+          }
           
           // Try to find and highlight the item
           const editor = vscode.window.activeTextEditor;
           if (editor) {
-            const text = document.getText();
-            const searchName = launchItem ? launchItem.name : taskItem?.label;
-            if (searchName) {
-              const lines = text.split('\n');
-              for (let i = 0; i < lines.length; i++) {
-                if (lines[i].includes(`"${searchName}"`) || lines[i].includes(`'${searchName}'`)) {
-                  const position = new vscode.Position(i, 0);
-                  const range = new vscode.Range(position, position);
-                  editor.revealRange(range, vscode.TextEditorRevealType.Default);
-                  editor.selection = new vscode.Selection(position, position);
-                  break;
-                }
-              }
-            }
+            revealDefinition(editor, jsonPath, searchName, line);
           }
         } catch (error) {
           vscode.window.showErrorMessage(`Failed to open settings file: ${error}`);
         }
       } else if (source.uri) {
-        // For workspace files (launch.json, tasks.json), open the file
+        // For workspace files (launch.json, tasks.json, .code-workspace, Makefile, ...), open the file
         try {
           const document = await vscode.workspace.openTextDocument(source.uri);
-          await vscode.window.showTextDocument(document);
+          const editor = await vscode.window.showTextDocument(document);
           
           // Try to find and highlight the item
-          const searchName = launchItem ? launchItem.name : taskItem?.label;
-          if (searchName) {
-            const editor = vscode.window.activeTextEditor;
-            if (editor) {
-              const text = document.getText();
-              const lines = text.split('\n');
-              for (let i = 0; i < lines.length; i++) {
-                if (lines[i].includes(`"${searchName}"`) || lines[i].includes(`'${searchName}'`)) {
-                  const position = new vscode.Position(i, 0);
-                  const range = new vscode.Range(position, position);
-                  editor.revealRange(range, vscode.TextEditorRevealType.Default);
-                  editor.selection = new vscode.Selection(position, position);
-                  break;
-                }
-              }
-            }
-          }
+          revealDefinition(editor, jsonPath, searchName, line);
         } catch (error) {
           vscode.window.showErrorMessage(`Failed to open definition file: ${error}`);
         }
@@ -1019,17 +1853,19 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Listen for configuration changes to refresh notebooks
-  context.subscriptions.push(
-    vscode.workspace.onDidChangeConfiguration((e) => {
-      if (e.affectsConfiguration("betterRun.userNotebookPaths")) {
-        provider.refresh().catch(() => {});
-      }
-    })
-  );
+  // Auto-refresh when any source file, betterRun.* setting or the workspace folder set changes
+  context.subscriptions.push(new SourceWatcher(() => provider.refresh(true)));
+
+  // Registered run sources changed (added, removed or fired onDidChange)
+  context.subscriptions.push(registry.onDidChange(() => provider.refresh(true).catch(logRefreshError)));
 
   // initial
-  provider.refresh().catch(() => {});
+  provider.refresh().catch(logRefreshError);
+
+  return {
+    registerRunSource: (runSource) => registry.register(runSource),
+    refresh: () => provider.refresh(),
+  };
 }
 
 export function deactivate() {}
@@ -0,0 +1,190 @@
+// Filter query language of the Runs view. Kept free of the vscode API; the tree describes
+// each item as a FilterSubject.
+//
+//   api                      name contains "api"
+//   type:debugpy ws:api      debugpy launches in the "api" workspace folder
+//   source:user cmd:pytest   pytest tasks from user settings
+//   -category:legacy         anything not in a "legacy" category
+//   /^test:(unit|e2e)$/      regex on the name
+//   ~bldsrv                  fuzzy: the characters in order ("build-server")
+//   cmd:"npm run"            quoted values may contain spaces
+
+import type { CategorySubject } from "./categories";
+
+export type FilterField = "name" | "type" | "category" | "source" | "ws" | "cmd" | "program";
+
+// Qualifier spellings accepted in queries
+const FIELD_ALIASES: Record<string, FilterField> = {
+  name: "name",
+  label: "name",
+  type: "type",
+  category: "category",
+  cat: "category",
+  source: "source",
+  src: "source",
+  ws: "ws",
+  workspace: "ws",
+  cmd: "cmd",
+  command: "cmd",
+  program: "program",
+  module: "program",
+};
+
+export interface FilterSubject extends CategorySubject {
+  category?: string;
+  // Workspace node the item is listed under ("Local" for user settings)
+  workspace?: string;
+  // Display name of the source ("User Settings", "Makefile", ...); `source` is its path
+  sourceLabel?: string;
+}
+
+export interface ItemFilter {
+  // The query as typed
+  text: string;
+  // Problems with the query (e.g. invalid regex); those terms fall back to a plain substring match
+  errors: string[];
+  matches(subject: FilterSubject): boolean;
+}
+
+interface FilterTerm {
+  // undefined = the name
+  field?: FilterField;
+  negate: boolean;
+  test(value: string): boolean;
+}
+
+// Characters after which a new "word" starts in item names ("test:unit", "api-server", "Build (Debug)")
+const WORD_SEPARATORS = " -_:./\\()[]";
+
+/**
+ * Fuzzy match of `query` against `text`: every query character must appear in order.
+ * Consecutive characters and word starts score higher; undefined = no match.
+ */
+export function fuzzyScore(query: string, text: string): number | undefined {
+  const q = query.replace(/\s+/g, "").toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let ti = 0;
+  let previous = -2;
+  for (const ch of q) {
+    const found = t.indexOf(ch, ti);
+    if (found < 0) return undefined;
+
+    score += 1;
+    if (found === previous + 1) score += 3;
+    const before = text[found - 1];
+    if (found === 0 || WORD_SEPARATORS.includes(before)) score += 2;
+    else if (before === before.toLowerCase() && text[found] !== text[found].toLowerCase()) score += 2; // camelCase
+    // Small penalty for the characters skipped over
+    score -= Math.min(found - ti, 3) * 0.1;
+
+    previous = found;
+    ti = found + 1;
+  }
+  return score;
+}
+
+// Splits on whitespace, keeping "quoted values" and /regex values/ (which may contain spaces) whole
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let closing: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (closing) {
+      current += ch;
+      if (ch === closing && text[i - 1] !== "\\") closing = undefined;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = "";
+      continue;
+    }
+    // A quote or slash only opens a value at the start of a term ("-", "~" or "field:" may come first)
+    if ((ch === '"' || ch === "/") && /^[-!]?(\w+:)?~?$/.test(current)) closing = ch;
+    current += ch;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function parseTerm(token: string, errors: string[]): FilterTerm | undefined {
+  let rest = token;
+  let negate = false;
+  if (rest.length > 1 && (rest[0] === "-" || rest[0] === "!")) {
+    negate = true;
+    rest = rest.slice(1);
+  }
+
+  // Unknown qualifiers stay part of the name ("test:unit" is a task name, not a field)
+  let field: FilterField | undefined;
+  const qualified = rest.match(/^(\w+):(.*)$/);
+  if (qualified && FIELD_ALIASES[qualified[1].toLowerCase()]) {
+    field = FIELD_ALIASES[qualified[1].toLowerCase()];
+    rest = qualified[2];
+  }
+  if (!rest) return undefined;
+
+  const regex = rest.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      // g/y make test() stateful (lastIndex), and the same term is evaluated over and over
+      const flags = regex[2].replace(/[gy]/g, "");
+      const re = new RegExp(regex[1], flags.includes("i") ? flags : `${flags}i`);
+      return { field, negate, test: (value) => re.test(value) };
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : `Invalid regular expression: ${rest}`);
+    }
+  }
+
+  if (rest.length > 1 && rest.startsWith("~")) {
+    const query = rest.slice(1);
+    return { field, negate, test: (value) => fuzzyScore(query, value) !== undefined };
+  }
+
+  const quoted = rest.match(/^"(.*)"$/);
+  const needle = (quoted ? quoted[1] : rest).toLowerCase();
+  return { field, negate, test: (value) => value.toLowerCase().includes(needle) };
+}
+
+function fieldValues(subject: FilterSubject, field: FilterField | undefined): string[] {
+  switch (field) {
+    case undefined:
+    case "name":
+      return [subject.label];
+    case "type":
+      return subject.type ? [subject.type] : [];
+    case "category":
+      return subject.category ? [subject.category] : [];
+    case "source":
+      return [subject.sourceLabel, subject.source].filter((v): v is string => !!v);
+    case "ws":
+      return subject.workspace ? [subject.workspace] : [];
+    case "cmd":
+      return subject.command ? [subject.command] : [];
+    case "program":
+      return subject.program ? [subject.program] : [];
+  }
+}
+
+/** Parses a filter query; undefined when it is empty. All terms must match (AND). */
+export function parseFilter(text: string): ItemFilter | undefined {
+  const errors: string[] = [];
+  const terms = tokenize(text.trim())
+    .map((token) => parseTerm(token, errors))
+    .filter((term): term is FilterTerm => !!term);
+  if (!terms.length) return undefined;
+
+  return {
+    text: text.trim(),
+    errors,
+    matches: (subject) =>
+      terms.every((term) => {
+        const hit = fieldValues(subject, term.field).some((value) => term.test(value));
+        return term.negate ? !hit : hit;
+      }),
+  };
+}
@@ -0,0 +1,98 @@
+import * as vscode from "vscode";
+import { Storage } from "./storage";
+import type { LaunchOverrides } from "./variants";
+
+export type RunKind = "launch" | "compound" | "task";
+export type RunMode = "run" | "debug";
+// "ended": finished without an exit code (debug sessions, provider runs)
+export type RunStatus = "running" | "succeeded" | "failed" | "ended";
+
+export interface HistoryEntry {
+  runId: string;
+  itemId: string;
+  kind: RunKind;
+  mode: RunMode;
+  label: string;
+  // Workspace folder name; undefined for user settings / workspace-level items
+  workspace?: string;
+  startedAt: number;
+  endedAt?: number;
+  status: RunStatus;
+  exitCode?: number;
+  // Args / env the launch ran with ("Run with…" or a saved variant), kept for re-runs
+  overrides?: LaunchOverrides;
+}
+
+const MAX_HISTORY_ENTRIES = 50;
+
+let runCounter = 0;
+
+/** Records every run, debug session and task execution in workspace state, newest first. */
+export class RunHistory implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly storage: Storage) {
+    // Runs still marked as running were cut short by the window reload
+    const entries = storage.getRunHistory();
+    if (entries.some((e) => e.status === "running")) {
+      void storage.setRunHistory(entries.map((e) => (e.status === "running" ? { ...e, status: "ended" } : e)));
+    }
+  }
+
+  entries(): HistoryEntry[] {
+    return this.storage.getRunHistory();
+  }
+
+  // Most recent run of a launch (or compound) / of a task, used to restore the rerun targets
+  last(kind: "launch" | "task"): HistoryEntry | undefined {
+    return this.entries().find((e) => (kind === "launch" ? e.kind !== "task" : e.kind === "task"));
+  }
+
+  /** Adds a running entry and returns its run id. */
+  start(
+    item: { id: string; label: string; workspaceFolder?: vscode.WorkspaceFolder },
+    kind: RunKind,
+    mode: RunMode,
+    overrides?: LaunchOverrides
+  ): string {
+    const runId = `${Date.now().toString(36)}-${(runCounter++).toString(36)}`;
+    const entry: HistoryEntry = {
+      runId,
+      itemId: item.id,
+      kind,
+      mode,
+      label: item.label,
+      workspace: item.workspaceFolder?.name,
+      startedAt: Date.now(),
+      status: "running",
+      overrides,
+    };
+    void this.save([entry, ...this.entries()].slice(0, MAX_HISTORY_ENTRIES));
+    void this.storage.setLastRunId(runId);
+    return runId;
+  }
+
+  finish(runId: string, status: Exclude<RunStatus, "running">, exitCode?: number): void {
+    const entries = this.entries();
+    const index = entries.findIndex((e) => e.runId === runId);
+    // Already finished (e.g. by a fallback timer) or dropped from the list
+    if (index < 0 || entries[index].status !== "running") return;
+
+    entries[index] = { ...entries[index], status, exitCode, endedAt: Date.now() };
+    void this.save(entries);
+  }
+
+  async clear(): Promise<void> {
+    await this.save([]);
+  }
+
+  private async save(entries: HistoryEntry[]): Promise<void> {
+    await this.storage.setRunHistory(entries);
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,10 @@
+import * as vscode from "vscode";
+
+let channel: vscode.OutputChannel | undefined;
+
+// The "Better Run" output channel, created once; sources are reloaded on every watched save,
+// and a channel per call would add a new Output panel entry each time
+export function getOutputChannel(): vscode.OutputChannel {
+  if (!channel) channel = vscode.window.createOutputChannel("Better Run");
+  return channel;
+}
@@ -0,0 +1,160 @@
+import * as vscode from "vscode";
+import type { LaunchItem, CompoundItem, TaskItem, NotebookItem } from "./sources";
+import { fuzzyScore } from "./filter";
+
+export type QuickRunTarget =
+  | { kind: "launch"; item: LaunchItem }
+  | { kind: "compound"; item: CompoundItem }
+  | { kind: "task"; item: TaskItem }
+  | { kind: "notebook"; item: NotebookItem };
+
+export interface QuickRunActions {
+  // Accepting an item runs it (launches and compounds without debugging, notebooks open)
+  run(target: QuickRunTarget): Promise<void>;
+  debug(target: QuickRunTarget & { kind: "launch" | "compound" }): Promise<void>;
+  goToDefinition(target: QuickRunTarget): Promise<void>;
+}
+
+interface QuickRunPickItem extends vscode.QuickPickItem {
+  target?: QuickRunTarget;
+}
+
+const RUN_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("play"), tooltip: "Run" };
+const DEBUG_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("debug-alt"), tooltip: "Debug" };
+const DEFINITION_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("go-to-file"), tooltip: "Go to Definition" };
+
+function targetName(target: QuickRunTarget): string {
+  return target.kind === "task" ? target.item.label : target.item.name;
+}
+
+function targetIcon(target: QuickRunTarget): string {
+  switch (target.kind) {
+    case "launch":
+      return "$(zap)";
+    case "compound":
+      return "$(layers)";
+    case "task":
+      return "$(tools)";
+    case "notebook":
+      return "$(notebook)";
+  }
+}
+
+// "workspace · category · source"
+function targetDescription(target: QuickRunTarget): string {
+  if (target.kind === "notebook") {
+    const nb = target.item;
+    return [nb.isLocal ? "Local" : nb.workspaceFolder?.name, nb.folder, "Notebook"].filter(Boolean).join(" · ");
+  }
+  const item = target.item;
+  const workspace = item.workspaceFolder?.name ?? (item.source.isWorkspaceFile ? "Workspace" : "Local");
+  return [workspace, item.category, item.source.label].filter(Boolean).join(" · ");
+}
+
+function targetButtons(target: QuickRunTarget): vscode.QuickInputButton[] {
+  if (target.kind === "notebook") return [];
+  // Items contributed by other extensions have no file to go to
+  const hasDefinition = !!target.item.source.uri || !!target.item.source.isUserSettings;
+  const buttons = target.kind === "task" ? [RUN_BUTTON] : [RUN_BUTTON, DEBUG_BUTTON];
+  return hasDefinition ? [...buttons, DEFINITION_BUTTON] : buttons;
+}
+
+function toPickItem(target: QuickRunTarget): QuickRunPickItem {
+  return {
+    label: `${targetIcon(target)} ${targetName(target)}`,
+    description: targetDescription(target),
+    buttons: targetButtons(target),
+    // We filter and sort ourselves (fuzzy); keep VS Code from hiding our matches
+    alwaysShow: true,
+    target,
+  };
+}
+
+/**
+ * Items for the current query: with no query, recently run items first under a "Recent"
+ * separator; otherwise fuzzy matches on the name (then on the description), best first.
+ */
+function pickItems(targets: QuickRunTarget[], recentIds: string[], query: string): QuickRunPickItem[] {
+  const recency = (target: QuickRunTarget): number => {
+    const index = recentIds.indexOf(target.item.id);
+    return index < 0 ? recentIds.length : index;
+  };
+
+  if (!query.trim()) {
+    const recent = targets.filter((t) => recentIds.includes(t.item.id)).sort((a, b) => recency(a) - recency(b));
+    const rest = targets.filter((t) => !recentIds.includes(t.item.id));
+    if (!recent.length) return rest.map(toPickItem);
+    return [
+      { label: "Recent", kind: vscode.QuickPickItemKind.Separator },
+      ...recent.map(toPickItem),
+      { label: "All", kind: vscode.QuickPickItemKind.Separator },
+      ...rest.map(toPickItem),
+    ];
+  }
+
+  const scored: { target: QuickRunTarget; score: number }[] = [];
+  for (const target of targets) {
+    const nameScore = fuzzyScore(query, targetName(target));
+    // Matching on workspace/category/source only counts for half
+    const descriptionScore = fuzzyScore(query, `${targetDescription(target)} ${targetName(target)}`);
+    const score = nameScore ?? (descriptionScore !== undefined ? descriptionScore / 2 : undefined);
+    if (score !== undefined) scored.push({ target, score });
+  }
+  scored.sort((a, b) => b.score - a.score || recency(a.target) - recency(b.target));
+  return scored.map((s) => toPickItem(s.target));
+}
+
+/** Shows every launch, compound, task and notebook in one fuzzy-searchable quick pick. */
+export async function showQuickRun(
+  loadTargets: () => Promise<QuickRunTarget[]>,
+  recentIds: string[],
+  actions: QuickRunActions
+): Promise<void> {
+  const quickPick = vscode.window.createQuickPick<QuickRunPickItem>();
+  quickPick.title = "Better Run: Run…";
+  quickPick.placeholder = "Type to search launches, tasks and notebooks";
+  quickPick.matchOnDescription = false;
+  quickPick.busy = true;
+  quickPick.show();
+
+  let targets: QuickRunTarget[] = [];
+  const update = () => {
+    quickPick.items = pickItems(targets, recentIds, quickPick.value);
+  };
+
+  const chosen = await new Promise<{ target: QuickRunTarget; button?: vscode.QuickInputButton } | undefined>((resolve) => {
+    quickPick.onDidChangeValue(update);
+    quickPick.onDidAccept(() => {
+      const target = quickPick.selectedItems[0]?.target;
+      if (target) resolve({ target });
+    });
+    quickPick.onDidTriggerItemButton((e) => {
+      if (e.item.target) resolve({ target: e.item.target, button: e.button });
+    });
+    quickPick.onDidHide(() => resolve(undefined));
+
+    loadTargets().then(
+      (loaded) => {
+        targets = loaded;
+        quickPick.busy = false;
+        update();
+      },
+      (err) => {
+        quickPick.hide();
+        vscode.window.showErrorMessage(`Failed to load launches and tasks: ${err instanceof Error ? err.message : err}`);
+      }
+    );
+  });
+
+  quickPick.dispose();
+  if (!chosen) return;
+
+  const { target, button } = chosen;
+  if (button === DEFINITION_BUTTON) {
+    await actions.goToDefinition(target);
+  } else if (button === DEBUG_BUTTON && (target.kind === "launch" || target.kind === "compound")) {
+    await actions.debug(target);
+  } else {
+    await actions.run(target);
+  }
+}
@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+
+// Debug configuration property carrying the Better Run run id. VS Code hands unknown
+// properties through to `session.configuration`, so the started session can be recognized
+// even when several launches share a name.
+const RUN_ID_PROPERTY = "__betterRunId";
+
+export interface TrackedRun {
+  runId: string;
+  // Item the run was started for (the compound, for compound members)
+  itemId: string;
+  // False for runs started with `noDebug`
+  debug: boolean;
+  // Live sessions of the run, child sessions included
+  sessions: vscode.DebugSession[];
+}
+
+// How long stop() waits for the sessions of a run to go away
+const STOP_TIMEOUT_MS = 10000;
+
+type Run = TrackedRun & { onEnd: () => void; ended: Promise<void>; resolveEnded: () => void };
+
+let runCounter = 0;
+
+/** Maps debug sessions, including child sessions, back to the item and run that started them. */
+export class SessionTracker implements vscode.Disposable {
+  private readonly runs: Map<string, Run> = new Map();
+  // session id -> run id
+  private readonly runBySession: Map<string, string> = new Map();
+  private readonly disposables: vscode.Disposable[];
+
+  constructor() {
+    this.disposables = [
+      vscode.debug.onDidStartDebugSession((session) => this.sessionStarted(session)),
+      vscode.debug.onDidTerminateDebugSession((session) => this.sessionTerminated(session)),
+    ];
+  }
+
+  /**
+   * Starts `config` as a new run of `itemId` and returns the run id, or undefined when debugging
+   * could not be started. `onEnd` is called once the last session of the run has terminated.
+   */
+  async start(
+    itemId: string,
+    folder: vscode.WorkspaceFolder | undefined,
+    config: vscode.DebugConfiguration,
+    onEnd: () => void
+  ): Promise<string | undefined> {
+    const runId = `run-${Date.now().toString(36)}-${(runCounter++).toString(36)}`;
+    let resolveEnded = () => {};
+    const ended = new Promise<void>((resolve) => (resolveEnded = resolve));
+    const run: Run = { runId, itemId, debug: !config.noDebug, sessions: [], onEnd, ended, resolveEnded };
+    this.runs.set(runId, run);
+
+    let ok = false;
+    try {
+      ok = await vscode.debug.startDebugging(folder, { ...config, [RUN_ID_PROPERTY]: runId });
+    } finally {
+      if (!ok) this.runs.delete(runId);
+    }
+    if (!ok) return undefined;
+
+    // The first session is reported before startDebugging resolves; without one nothing
+    // is left running (e.g. the configuration was cancelled while resolving)
+    if (!run.sessions.length) this.end(run);
+    return runId;
+  }
+
+  // Active runs of an item, oldest first
+  runsOf(itemId: string): TrackedRun[] {
+    return Array.from(this.runs.values()).filter((run) => run.itemId === itemId);
+  }
+
+  /** Stops every top-level session of a run (children stop with them); resolves once the run has ended. */
+  async stop(runId: string): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    const roots = run.sessions.filter((s) => !s.parentSession || !this.runBySession.has(s.parentSession.id));
+    await Promise.all(roots.map((s) => vscode.debug.stopDebugging(s)));
+    // A debug adapter that ignores the request shouldn't block a restart forever
+    await Promise.race([run.ended, new Promise<void>((resolve) => setTimeout(resolve, STOP_TIMEOUT_MS))]);
+  }
+
+  private runOf(session: vscode.DebugSession): Run | undefined {
+    const tagged = session.configuration?.[RUN_ID_PROPERTY];
+    if (typeof tagged === "string" && this.runs.has(tagged)) return this.runs.get(tagged);
+
+    // Child sessions (debugpy subprocesses, js-debug targets, ...) belong to their parent's run
+    for (let parent = session.parentSession; parent; parent = parent.parentSession) {
+      const runId = this.runBySession.get(parent.id);
+      if (runId) return this.runs.get(runId);
+    }
+    return undefined;
+  }
+
+  private sessionStarted(session: vscode.DebugSession): void {
+    const run = this.runOf(session);
+    if (!run) return;
+    run.sessions.push(session);
+    this.runBySession.set(session.id, run.runId);
+  }
+
+  private sessionTerminated(session: vscode.DebugSession): void {
+    const runId = this.runBySession.get(session.id);
+    if (!runId) return;
+    this.runBySession.delete(session.id);
+
+    const run = this.runs.get(runId);
+    if (!run) return;
+    run.sessions = run.sessions.filter((s) => s.id !== session.id);
+    if (!run.sessions.length) this.end(run);
+  }
+
+  private end(run: Run): void {
+    this.runs.delete(run.runId);
+    run.onEnd();
+    run.resolveEnded();
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) d.dispose();
+    this.runs.clear();
+    this.runBySession.clear();
+  }
+}
@@ -1,7 +1,13 @@
 import * as vscode from "vscode";
-import { parse } from "jsonc-parser";
+import * as os from "os";
+import * as path from "path";
+import { parse, printParseErrorCode, JSONPath, ParseError } from "jsonc-parser";
+import { COMPOSE_FILE_NAMES, parseComposeServices } from "./compose";
+import type { ContributedRef } from "./api";
+import { Categorizer, CategoryRule, CategorySubject, createCategorizer, normalizeCategory } from "./categories";
+import { getOutputChannel } from "./output";
 
-export type SectionKind = "launches" | "tasks";
+export type SectionKind = "launches" | "tasks" | "services";
 
 export interface SourceRef {
   id: string;
@@ -10,6 +16,13 @@ export interface SourceRef {
   workspaceFolder?: vscode.WorkspaceFolder;
   kind: SectionKind;
   isUserSettings?: boolean;
+  // Defined in the multi-root `.code-workspace` file rather than a folder
+  isWorkspaceFile?: boolean;
+  // Generated from Python project metadata; items honour a venv attached through Storage
+  isPythonProject?: boolean;
+  // Nested `.vscode` folder of a monorepo package: its directory and path relative to the workspace folder
+  packageRoot?: vscode.Uri;
+  packagePath?: string;
 }
 
 export interface LaunchItem {
@@ -19,52 +32,831 @@ export interface LaunchItem {
   config: any;
   workspaceFolder?: vscode.WorkspaceFolder;
   source: SourceRef;
+  // Location of the definition inside source.uri, e.g. ["configurations", 2]
+  jsonPath?: JSONPath;
+  // Item registered by another extension through the public API; executed by its provider
+  contributed?: ContributedRef;
 }
 
-export interface CategoryRule {
-  category: string;
-  pattern: string;
+export interface CompoundItem {
+  id: string;
+  name: string;
+  category?: string;
+  // Member launches resolved from the compound's `configurations` list
+  members: LaunchItem[];
+  // Member names that could not be resolved to a launch
+  missingMembers: string[];
+  stopAll?: boolean;
+  workspaceFolder?: vscode.WorkspaceFolder;
+  source: SourceRef;
+  jsonPath?: JSONPath;
+}
+
+// Argument as in tasks.json: a plain string or { value, quoting }
+export type UserTaskArg = string | { value: string; quoting?: "escape" | "strong" | "weak" };
+
+// Fields a `linux` / `osx` / `windows` block of a user task may override
+export interface UserTaskPlatformSpec {
+  command?: string;
+  args?: UserTaskArg[];
+  cwd?: string;
+  options?: {
+    cwd?: string;
+    env?: Record<string, string>;
+    shell?: { executable?: string; args?: string[] };
+  };
 }
 
-export interface UserTaskSpec {
+// `betterRun.userTasks` entry, following the tasks.json schema
+export interface UserTaskSpec extends UserTaskPlatformSpec {
   label: string;
-  type?: "shell";
+  type?: "shell" | "process";
   command: string;
-  cwd?: string;
   category?: string;
+  // Named problem matchers, e.g. "$tsc" or ["$eslint-stylish"]
+  problemMatcher?: string | string[];
+  presentation?: {
+    reveal?: "always" | "silent" | "never";
+    echo?: boolean;
+    focus?: boolean;
+    panel?: "shared" | "dedicated" | "new";
+    clear?: boolean;
+    showReuseMessage?: boolean;
+  };
+  group?: "build" | "test" | "clean" | "rebuild" | { kind: "build" | "test" | "clean" | "rebuild"; isDefault?: boolean };
+  linux?: UserTaskPlatformSpec;
+  osx?: UserTaskPlatformSpec;
+  windows?: UserTaskPlatformSpec;
+}
+
+// The spec with the current OS's `linux` / `osx` / `windows` overrides applied (options and env are merged)
+export function platformTaskSpec(spec: UserTaskSpec): UserTaskSpec {
+  const override =
+    process.platform === "win32" ? spec.windows : process.platform === "darwin" ? spec.osx : spec.linux;
+  if (!override) return spec;
+
+  return {
+    ...spec,
+    ...override,
+    options: {
+      ...spec.options,
+      ...override.options,
+      env: { ...spec.options?.env, ...override.options?.env },
+    },
+  };
 }
 
 export interface TaskItem {
   id: string;
   label: string;
+  // Short description shown next to the label (e.g. a Makefile target's doc comment)
+  description?: string;
   category?: string;
   workspaceFolder?: vscode.WorkspaceFolder;
   userTask?: UserTaskSpec;
+  // Raw tasks.json entry (variables already resolved for nested package folders)
+  definition?: any;
+  // Task contributed by a task provider (npm, gulp, typescript, ...), executed as-is
+  detectedTask?: vscode.Task;
+  // tasks.json `dependsOn` names and `dependsOrder`
+  dependsOn?: string[];
+  dependsOrder?: "parallel" | "sequence";
+  // `dependsOn` resolved against the loaded tasks, in declaration order
+  dependencies?: TaskItem[];
+  // Dependency names that could not be resolved to a task
+  missingDependencies?: string[];
   source: SourceRef;
+  jsonPath?: JSONPath;
+  // 0-based line of the definition for non-JSON sources (Makefile, justfile, ...)
+  line?: number;
+  // Item registered by another extension through the public API; executed by its provider
+  contributed?: ContributedRef;
+}
+
+export interface ServiceItem {
+  id: string;
+  name: string;
+  image?: string;
+  build?: boolean;
+  composeFile: vscode.Uri;
+  workspaceFolder: vscode.WorkspaceFolder;
+  source: SourceRef;
+  line: number;
 }
 
 export interface NotebookItem {
   id: string;
   name: string;
   uri: vscode.Uri;
+  // Folder path ("a/b") the notebook is grouped under in the tree; undefined = top level
+  folder?: string;
   workspaceFolder?: vscode.WorkspaceFolder;
   isLocal?: boolean;
 }
 
-async function readJsonc(uri: vscode.Uri): Promise<any | undefined> {
+// Something wrong in a configuration file or setting, reported as a diagnostic
+// and as a warning on the affected section in the tree
+export interface ConfigProblem {
+  message: string;
+  severity: "error" | "warning";
+  uri?: vscode.Uri;
+  // Location inside `uri`: a JSON path, or a character range (parse errors)
+  jsonPath?: JSONPath;
+  offset?: number;
+  length?: number;
+  // Source whose items are affected
+  sourceId?: string;
+}
+
+// Syntax errors are reported to `problems`; the (partial) parse result is still returned
+async function readJsonc(uri: vscode.Uri, problems?: ConfigProblem[]): Promise<any | undefined> {
+  let text: string;
   try {
     const bytes = await vscode.workspace.fs.readFile(uri);
-    const text = Buffer.from(bytes).toString("utf8");
-    return parse(text);
+    text = Buffer.from(bytes).toString("utf8");
   } catch {
     return undefined;
   }
+
+  const errors: ParseError[] = [];
+  const json = parse(text, errors, { allowTrailingComma: true });
+  for (const e of errors) {
+    problems?.push({
+      message: `JSON syntax error: ${printParseErrorCode(e.error)}`,
+      severity: "error",
+      uri,
+      offset: e.offset,
+      length: e.length,
+    });
+  }
+  return json;
+}
+
+// Ids are `<source id>::<name>`, so names must be unique within a source.
+// Later duplicates get a numbered id (`::name#2`) and a warning.
+function claimItemId(
+  source: SourceRef,
+  name: string,
+  seen: Map<string, number>,
+  problems: ConfigProblem[],
+  jsonPath: JSONPath,
+  what = "name",
+  idPrefix = source.id
+): string {
+  const count = (seen.get(name) ?? 0) + 1;
+  seen.set(name, count);
+  if (count === 1) return `${idPrefix}::${name}`;
+
+  problems.push({
+    message: `Duplicate ${what} '${name}' in ${source.label}`,
+    severity: "warning",
+    uri: source.uri,
+    jsonPath,
+    sourceId: source.id,
+  });
+  return `${idPrefix}::${name}#${count}`;
+}
+
+function reportMissingName(source: SourceRef, problems: ConfigProblem[], jsonPath: JSONPath, what: string): void {
+  problems.push({
+    message: `${what} has no '${jsonPath[jsonPath.length - 1]}' and is not shown`,
+    severity: "warning",
+    uri: source.uri,
+    jsonPath,
+    sourceId: source.id,
+  });
+}
+
+function isSettingDefined(cfg: vscode.WorkspaceConfiguration, key: string): boolean {
+  const inspected = cfg.inspect(key);
+  return inspected?.globalValue !== undefined || inspected?.workspaceValue !== undefined || inspected?.workspaceFolderValue !== undefined;
+}
+
+// Settings file where a betterRun.* setting is defined, with the precedence VS Code applies:
+// folder settings, then workspace settings, then user settings
+function settingDefinitionUri(key: string, userSettingsUri: vscode.Uri | undefined): vscode.Uri | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const definingFolder = folders.find(
+    (wf) => vscode.workspace.getConfiguration("betterRun", wf.uri).inspect(key)?.workspaceFolderValue !== undefined
+  );
+  if (definingFolder) return vscode.Uri.joinPath(definingFolder.uri, ".vscode", "settings.json");
+
+  const inspected = vscode.workspace.getConfiguration("betterRun").inspect(key);
+  if (inspected?.workspaceValue !== undefined) {
+    // Without a .code-workspace file the workspace settings are the single folder's
+    const folder = folders[0];
+    return getWorkspaceFileUri() ?? (folder ? vscode.Uri.joinPath(folder.uri, ".vscode", "settings.json") : undefined);
+  }
+  return userSettingsUri;
+}
+
+function validateCategoryRules(key: string, rules: CategoryRule[], uri: vscode.Uri | undefined, problems: ConfigProblem[]): void {
+  rules.forEach((r, index) => {
+    try {
+      new RegExp(r.pattern, "i");
+    } catch (error) {
+      problems.push({
+        message: `Invalid category pattern '${r.pattern}': ${error instanceof Error ? error.message : error}`,
+        severity: "error",
+        uri,
+        jsonPath: [`betterRun.${key}`, index, "pattern"],
+      });
+    }
+  });
+}
+
+// Compound members are either a plain configuration name (same launch.json)
+// or `{ name, folder }` pointing at a launch.json in another workspace folder.
+function resolveCompoundMembers(
+  compound: any,
+  source: SourceRef,
+  launches: LaunchItem[]
+): { members: LaunchItem[]; missingMembers: string[] } {
+  const members: LaunchItem[] = [];
+  const missingMembers: string[] = [];
+  const refs: any[] = Array.isArray(compound?.configurations) ? compound.configurations : [];
+
+  for (const ref of refs) {
+    const name = String((typeof ref === "string" ? ref : ref?.name) ?? "").trim();
+    if (!name) continue;
+
+    const folderName = typeof ref === "object" && ref?.folder ? String(ref.folder) : undefined;
+    const match = launches.find((l) => {
+      if (l.name !== name) return false;
+      if (folderName) return l.workspaceFolder?.name === folderName;
+      return l.source.id === source.id;
+    });
+
+    if (match) {
+      members.push(match);
+    } else {
+      missingMembers.push(folderName ? `${name} (${folderName})` : name);
+    }
+  }
+
+  return { members, missingMembers };
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    return Buffer.from(bytes).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+interface BuildTarget {
+  name: string;
+  description?: string;
+  line: number;
+}
+
+// Collect the `# ...` comment block directly above a line
+function commentAbove(lines: string[], index: number): string | undefined {
+  const out: string[] = [];
+  for (let i = index - 1; i >= 0; i--) {
+    const m = lines[i].match(/^\s*#+\s?(.*)$/);
+    if (!m) break;
+    out.unshift(m[1].trim());
+  }
+  const text = out.filter(Boolean).join(" ");
+  return text || undefined;
+}
+
+// Makefile targets. Supports the self-documenting `target: deps ## description` style
+// and comment blocks above the target; skips special (.PHONY), pattern (%) and variable lines.
+function parseMakefileTargets(text: string): BuildTarget[] {
+  const targets: BuildTarget[] = [];
+  const seen = new Set<string>();
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (/^\s/.test(line) || line.startsWith("#")) return;
+    const m = line.match(/^([^:=#\s][^:=#]*?)\s*::?(?![=])(.*)$/);
+    if (!m) return;
+
+    const trailing = m[2].match(/##\s*(.*)$/);
+    const description = trailing?.[1].trim() || commentAbove(lines, index);
+
+    for (const name of m[1].split(/\s+/)) {
+      if (!name || name.startsWith(".") || name.includes("%") || name.includes("$") || seen.has(name)) continue;
+      seen.add(name);
+      targets.push({ name, description, line: index });
+    }
+  });
+
+  return targets;
+}
+
+// justfile recipes. Skips settings, aliases, variables, attributes and private (`_`) recipes.
+function parseJustfileRecipes(text: string): BuildTarget[] {
+  const recipes: BuildTarget[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (/^\s/.test(line) || /^(#|\[|set\s|alias\s|export\s|import\s|mod\s)/.test(line)) return;
+    const m = line.match(/^@?([A-Za-z][A-Za-z0-9_-]*)(\s+[^:]*)?:(?!=)/);
+    if (!m) return;
+
+    // Attributes between the doc comment and the recipe, e.g. [private] / [no-cd]
+    let docIndex = index;
+    while (docIndex > 0 && /^\[.*\]\s*$/.test(lines[docIndex - 1])) {
+      if (/\bprivate\b/.test(lines[docIndex - 1])) return;
+      docIndex--;
+    }
+
+    recipes.push({ name: m[1], description: commentAbove(lines, docIndex), line: index });
+  });
+
+  return recipes;
+}
+
+// Taskfile.yml tasks: keys directly under the top-level `tasks:` mapping, with `desc`/`summary`.
+// A small indentation-based scan, enough for the shape Taskfiles use.
+function parseTaskfileTasks(text: string): BuildTarget[] {
+  const tasks: BuildTarget[] = [];
+  const lines = text.split(/\r?\n/);
+  let inTasks = false;
+  let taskIndent: number | undefined;
+  let current: (BuildTarget & { internal?: boolean }) | undefined;
+
+  const flush = () => {
+    if (current && !current.internal) tasks.push({ name: current.name, description: current.description, line: current.line });
+    current = undefined;
+  };
+  const unquote = (v: string) => v.trim().replace(/^(["'])(.*)\1$/, "$2");
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || /^\s*#/.test(line)) return;
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0) {
+      flush();
+      inTasks = /^tasks:\s*(#.*)?$/.test(line);
+      taskIndent = undefined;
+      return;
+    }
+    if (!inTasks) return;
+
+    if (taskIndent === undefined) taskIndent = indent;
+    if (indent === taskIndent) {
+      flush();
+      const m = line.trim().match(/^("[^"]+"|'[^']+'|[^:\s]+):/);
+      if (m) current = { name: unquote(m[1]), line: index };
+      return;
+    }
+
+    if (current && indent > taskIndent) {
+      const prop = line.trim().match(/^(desc|summary|internal):\s*(.*)$/);
+      if (!prop) return;
+      if (prop[1] === "internal") current.internal = prop[2].trim() === "true";
+      else if (!current.description && prop[2].trim() && !/^[|>]/.test(prop[2].trim())) current.description = unquote(prop[2]);
+    }
+  });
+  flush();
+
+  return tasks;
+}
+
+// Build tool files looked up in each workspace folder root (first existing name wins per tool)
+const BUILD_FILES: { tool: string; fileNames: string[]; parse: (text: string) => BuildTarget[]; command: (target: string) => string }[] = [
+  { tool: "make", fileNames: ["GNUmakefile", "Makefile", "makefile"], parse: parseMakefileTargets, command: (t) => `make ${t}` },
+  { tool: "just", fileNames: ["justfile", "Justfile", ".justfile"], parse: parseJustfileRecipes, command: (t) => `just ${t}` },
+  { tool: "task", fileNames: ["Taskfile.yml", "Taskfile.yaml", "taskfile.yml", "taskfile.yaml"], parse: parseTaskfileTasks, command: (t) => `task ${t}` },
+];
+
+async function loadBuildFileTasks(
+  wf: vscode.WorkspaceFolder,
+  categorize: Categorizer
+): Promise<{ sources: SourceRef[]; tasks: TaskItem[] }> {
+  const sources: SourceRef[] = [];
+  const tasks: TaskItem[] = [];
+
+  for (const buildFile of BUILD_FILES) {
+    for (const fileName of buildFile.fileNames) {
+      const uri = vscode.Uri.joinPath(wf.uri, fileName);
+      const text = await readText(uri);
+      if (text === undefined) continue;
+
+      const source: SourceRef = {
+        id: `task::${buildFile.tool}::${uri.toString()}`,
+        label: fileName,
+        uri,
+        workspaceFolder: wf,
+        kind: "tasks",
+      };
+      sources.push(source);
+
+      for (const target of buildFile.parse(text)) {
+        // Executed like user settings tasks: a shell command in the folder
+        tasks.push({
+          id: `${source.id}::${target.name}`,
+          label: target.name,
+          description: target.description,
+          category: categorize.task(taskSubject(target.name, source, buildFile.command(target.name), "shell")) ?? buildFile.tool,
+          workspaceFolder: wf,
+          userTask: {
+            label: target.name,
+            type: "shell",
+            command: buildFile.command(target.name),
+            cwd: wf.uri.fsPath,
+          },
+          source,
+          line: target.line,
+        });
+      }
+      break;
+    }
+  }
+
+  return { sources, tasks };
+}
+
+// ---------- Python projects ----------
+
+interface TomlEntry {
+  value: string;
+  line: number;
+}
+
+// Minimal TOML reader: `[table]` headers and single-line `key = value` pairs.
+// Multi-line arrays/strings are skipped; that covers the script tables we read.
+function parseTomlTables(text: string): Map<string, Map<string, TomlEntry>> {
+  const tables = new Map<string, Map<string, TomlEntry>>();
+  let current = "";
+  tables.set(current, new Map());
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const header = line.match(/^\[([^\[\]]+)\]\s*(#.*)?$/);
+    if (header) {
+      current = header[1].trim().replace(/\s*\.\s*/g, ".");
+      if (!tables.has(current)) tables.set(current, new Map());
+      return;
+    }
+
+    const kv = line.match(/^("[^"]+"|'[^']+'|[A-Za-z0-9_.-]+)\s*=\s*(.+)$/);
+    if (kv) tables.get(current)!.set(unquoteToml(kv[1]), { value: kv[2].trim(), line: index });
+  });
+
+  return tables;
+}
+
+function unquoteToml(value: string): string {
+  const m = value.trim().match(/^(["'])(.*)\1/);
+  return m ? m[2] : value.trim();
+}
+
+// Read `key = "..."` out of an inline table like `{ callable = "pkg:main", help = "..." }`
+function inlineTableField(value: string, key: string): string | undefined {
+  const m = value.match(new RegExp(`(?:^\\{|,)\\s*${key}\\s*=\\s*("[^"]*"|'[^']*')`));
+  return m ? unquoteToml(m[1]) : undefined;
+}
+
+// A `pkg.module:func` entry point, split into the module and the callable path
+function parseEntryPoint(ref: string): { module: string; attr?: string } | undefined {
+  const m = ref.trim().match(/^([A-Za-z_][\w.]*)(?::([A-Za-z_][\w.]*))?$/);
+  return m ? { module: m[1], attr: m[2] } : undefined;
+}
+
+// The same thing a console script does: import the callable and exit with its result
+function entryPointCode(entry: { module: string; attr: string }): string {
+  const head = entry.attr.split(".")[0];
+  return `import sys; from ${entry.module} import ${head}; sys.exit(${entry.attr}())`;
+}
+
+function entryPointCommand(entry: { module: string; attr?: string }): string {
+  if (!entry.attr) return `python -m ${entry.module}`;
+  return `python -c "${entryPointCode({ module: entry.module, attr: entry.attr })}"`;
+}
+
+interface PythonTarget {
+  label: string;
+  command: string;
+  description?: string;
+  line: number;
+  // Module for a debugpy launch, when the target is a Python entry point
+  module?: string;
+  // Callable in `module` (`pkg.cli:main`); the launch calls it like the task does instead of running the module
+  attr?: string;
+}
+
+function parsePyprojectTargets(text: string): PythonTarget[] {
+  const tables = parseTomlTables(text);
+  const targets: PythonTarget[] = [];
+
+  // [project.scripts] and [tool.poetry.scripts]: name = "pkg.module:func"
+  for (const table of ["project.scripts", "tool.poetry.scripts"]) {
+    for (const [name, entry] of tables.get(table) ?? []) {
+      const ref = entry.value.startsWith("{") ? inlineTableField(entry.value, "callable") : unquoteToml(entry.value);
+      const ep = ref ? parseEntryPoint(ref) : undefined;
+      if (!ep) continue;
+      targets.push({ label: name, command: entryPointCommand(ep), description: ref, line: entry.line, module: ep.module, attr: ep.attr });
+    }
+  }
+
+  // [tool.pdm.scripts]: run through pdm so its env and script options apply
+  for (const [name, entry] of tables.get("tool.pdm.scripts") ?? []) {
+    if (name.startsWith("_") || name.includes(".")) continue;
+    const isTable = entry.value.startsWith("{");
+    const description = isTable
+      ? inlineTableField(entry.value, "help") ?? inlineTableField(entry.value, "cmd") ?? inlineTableField(entry.value, "shell")
+      : unquoteToml(entry.value);
+    const call = isTable ? inlineTableField(entry.value, "call") : undefined;
+    const callEntry = call ? parseEntryPoint(call) : undefined;
+    targets.push({
+      label: `pdm: ${name}`,
+      command: `pdm run ${name}`,
+      description,
+      line: entry.line,
+      module: callEntry?.module,
+      attr: callEntry?.attr,
+    });
+  }
+
+  // pytest configured in pyproject
+  const pytest = Array.from(tables.keys()).includes("tool.pytest.ini_options");
+  if (pytest) {
+    const line = text.split(/\r?\n/).findIndex((l) => /^\s*\[tool\.pytest\.ini_options\]/.test(l));
+    targets.push({ label: "pytest", command: "python -m pytest", description: "Run the test suite", line: Math.max(line, 0), module: "pytest" });
+  }
+
+  return targets;
+}
+
+// tox.ini: simple names from `envlist` plus every `[testenv:name]` section
+function parseToxEnvs(text: string): PythonTarget[] {
+  const envs = new Map<string, PythonTarget>();
+  const lines = text.split(/\r?\n/);
+  let section = "";
+  let inEnvlist = false;
+
+  lines.forEach((line, index) => {
+    const header = line.match(/^\s*\[([^\]]+)\]/);
+    if (header) {
+      section = header[1].trim();
+      inEnvlist = false;
+      const env = section.match(/^testenv:(.+)$/)?.[1].trim();
+      if (env && !env.includes("{") && !envs.has(env)) {
+        envs.set(env, { label: `tox: ${env}`, command: `tox -e ${env}`, line: index });
+      }
+      return;
+    }
+
+    if (section === "tox") {
+      const m = line.match(/^env_?list\s*=\s*(.*)$/);
+      // Continuation lines are indented under `envlist =`
+      if (m) inEnvlist = true;
+      else if (!/^\s+\S/.test(line)) inEnvlist = false;
+      const values = m ? m[1] : inEnvlist ? line : "";
+      // Brace-expanded factors like py{38,39} are kept whole and skipped
+      for (const env of values.match(/[^\s,{}]*\{[^}]*\}[^\s,]*|[^\s,]+/g) ?? []) {
+        if (!env || env.includes("{") || envs.has(env)) continue;
+        envs.set(env, { label: `tox: ${env}`, command: `tox -e ${env}`, line: index });
+      }
+    }
+
+    if (section.startsWith("testenv:")) {
+      const env = section.slice("testenv:".length).trim();
+      const desc = line.match(/^\s*description\s*=\s*(.+)$/)?.[1].trim();
+      const target = envs.get(env);
+      if (desc && target && !target.description) target.description = desc;
+    }
+  });
+
+  return Array.from(envs.values());
+}
+
+// noxfile.py: functions decorated with @nox.session / @session, honouring `name=`
+function parseNoxSessions(text: string): PythonTarget[] {
+  const sessions: PythonTarget[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!/^@(nox\.)?session\b/.test(lines[i])) continue;
+
+    const decoratorLine = i;
+    let decorator = lines[i];
+    // Decorator arguments may span several lines; the function follows the last decorator
+    while (i + 1 < lines.length && !/^(async\s+)?def\s/.test(lines[i + 1])) {
+      i++;
+      decorator += lines[i];
+    }
+    const def = lines[i + 1]?.match(/^(?:async\s+)?def\s+([A-Za-z_]\w*)/);
+    if (!def) continue;
+
+    const name = decorator.match(/\bname\s*=\s*["']([^"']+)["']/)?.[1] ?? def[1];
+    const doc = lines[i + 2]?.match(/^\s+(?:"""|''')\s*(.*?)\s*(?:"""|''')?\s*$/)?.[1];
+    sessions.push({ label: `nox: ${name}`, command: `nox -s ${name}`, description: doc || undefined, line: decoratorLine });
+  }
+
+  return sessions;
+}
+
+const PYTHON_FILES: { fileName: string; parse: (text: string) => PythonTarget[] }[] = [
+  { fileName: "pyproject.toml", parse: parsePyprojectTargets },
+  { fileName: "tox.ini", parse: parseToxEnvs },
+  { fileName: "noxfile.py", parse: parseNoxSessions },
+];
+
+async function loadPythonProject(
+  wf: vscode.WorkspaceFolder,
+  categorize: Categorizer
+): Promise<{ launchSources: SourceRef[]; launches: LaunchItem[]; taskSources: SourceRef[]; tasks: TaskItem[] }> {
+  const launchSources: SourceRef[] = [];
+  const launches: LaunchItem[] = [];
+  const taskSources: SourceRef[] = [];
+  const tasks: TaskItem[] = [];
+
+  const targetsByFile: { fileName: string; uri: vscode.Uri; targets: PythonTarget[] }[] = [];
+  for (const { fileName, parse } of PYTHON_FILES) {
+    const uri = vscode.Uri.joinPath(wf.uri, fileName);
+    const text = await readText(uri);
+    if (text !== undefined) targetsByFile.push({ fileName, uri, targets: parse(text) });
+  }
+
+  // pytest.ini / setup.cfg projects without pyproject pytest config still get a pytest target
+  const hasPytest = targetsByFile.some((f) => f.targets.some((t) => t.module === "pytest"));
+  if (!hasPytest) {
+    const uri = vscode.Uri.joinPath(wf.uri, "pytest.ini");
+    if (await readText(uri) !== undefined) {
+      targetsByFile.push({ fileName: "pytest.ini", uri, targets: [{ label: "pytest", command: "python -m pytest", description: "Run the test suite", line: 0, module: "pytest" }] });
+    }
+  }
+
+  for (const { fileName, uri, targets } of targetsByFile) {
+    if (!targets.length) continue;
+
+    const taskSource: SourceRef = {
+      id: `task::python::${uri.toString()}`,
+      label: fileName,
+      uri,
+      workspaceFolder: wf,
+      kind: "tasks",
+      isPythonProject: true,
+    };
+    taskSources.push(taskSource);
+
+    const moduleTargets = targets.filter((t) => t.module);
+    const launchSource: SourceRef | undefined = moduleTargets.length
+      ? { ...taskSource, id: `launch::python::${uri.toString()}`, kind: "launches" }
+      : undefined;
+    if (launchSource) launchSources.push(launchSource);
+
+    for (const target of targets) {
+      tasks.push({
+        id: `${taskSource.id}::${target.label}`,
+        label: target.label,
+        description: target.description,
+        // Entry points without a matching rule are grouped together; tox/nox/pdm use their "tool: " prefix
+        category: categorize.task(taskSubject(target.label, taskSource, target.command, "shell")) ?? "Scripts",
+        workspaceFolder: wf,
+        userTask: { label: target.label, type: "shell", command: target.command, cwd: wf.uri.fsPath },
+        source: taskSource,
+        line: target.line,
+      });
+
+      if (launchSource && target.module) {
+        // `module` runs it as __main__, which wouldn't call `pkg.cli:main`; `code` runs the task's shim
+        const entry = target.attr
+          ? { code: entryPointCode({ module: target.module, attr: target.attr }) }
+          : { module: target.module };
+        const config = {
+          name: target.label,
+          type: "debugpy",
+          request: "launch",
+          ...entry,
+          cwd: "${workspaceFolder}",
+          console: "integratedTerminal",
+          justMyCode: true,
+        };
+        launches.push({
+          id: `${launchSource.id}::${target.label}`,
+          name: target.label,
+          category: categorize.launch(launchSubject(target.label, config, launchSource)) ?? "Python",
+          config,
+          workspaceFolder: wf,
+          source: launchSource,
+        });
+      }
+    }
+  }
+
+  return { launchSources, launches, taskSources, tasks };
+}
+
+// docker compose services from the compose file in a workspace folder root
+async function loadComposeServices(wf: vscode.WorkspaceFolder): Promise<ServiceItem[]> {
+  for (const fileName of COMPOSE_FILE_NAMES) {
+    const uri = vscode.Uri.joinPath(wf.uri, fileName);
+    const text = await readText(uri);
+    if (text === undefined) continue;
+
+    const source: SourceRef = {
+      id: `service::${uri.toString()}`,
+      label: fileName,
+      uri,
+      workspaceFolder: wf,
+      kind: "services",
+    };
+    // Compose itself uses the first file found, so do the same
+    return parseComposeServices(text).map((svc): ServiceItem => ({
+      id: `${source.id}::${svc.name}`,
+      name: svc.name,
+      image: svc.image,
+      build: svc.build,
+      composeFile: uri,
+      workspaceFolder: wf,
+      source,
+      line: svc.line,
+    }));
+  }
+  return [];
+}
+
+const DEFAULT_NOTEBOOK_EXCLUDE = [".ipynb_checkpoints", ".venv", "venv", "node_modules", ".git", "__pycache__"];
+const DEFAULT_NOTEBOOK_MAX_DEPTH = 5;
+
+interface NotebookScanOptions {
+  exclude: string[];
+  maxDepth: number;
+}
+
+function hasGlobChars(value: string): boolean {
+  return /[*?{}\[\]]/.test(value);
+}
+
+// Glob -> RegExp for `/`-separated relative paths: `**`, `*`, `?`, `{a,b}` and `[...]`
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories
+        const slash = glob[i + 2] === "/";
+        re += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        re += "[^/]*";
+      }
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "{") {
+      const end = glob.indexOf("}", i);
+      if (end < 0) {
+        re += "\\{";
+        continue;
+      }
+      re += `(?:${glob.slice(i + 1, end).split(",").map((alt) => globToRegExp(alt).source.slice(1, -1)).join("|")})`;
+      i = end;
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i);
+      if (end < 0) {
+        re += "\\[";
+        continue;
+      }
+      re += `[${glob.slice(i + 1, end).replace(/^!/, "^")}]`;
+      i = end;
+    } else {
+      re += ch.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+// Exclude patterns without a `/` match any single path segment (like .gitignore);
+// others are matched against the whole path relative to the scanned root.
+function isExcluded(relPath: string, exclude: RegExp[], segmentExclude: RegExp[]): boolean {
+  if (exclude.some((re) => re.test(relPath))) return true;
+  return relPath.split("/").some((segment) => segmentExclude.some((re) => re.test(segment)));
+}
+
+// Expand a leading ~ to the home directory
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") || path.startsWith("~\\") ? os.homedir() + path.slice(1) : path;
+}
+
+function isAbsoluteNotebookPath(path: string): boolean {
+  return path.startsWith('/') || (process.platform === 'win32' && /^[A-Za-z]:/.test(path));
+}
+
+// Split a notebook path entry into its literal base path and the glob pattern below it, if any
+function splitNotebookGlob(notebookPath: string): { basePath: string; glob?: string } {
+  const segments = notebookPath.replace(/\\/g, "/").split("/");
+  const globIndex = segments.findIndex(hasGlobChars);
+  if (globIndex < 0) return { basePath: notebookPath };
+  return { basePath: segments.slice(0, globIndex).join("/") || ".", glob: segments.slice(globIndex).join("/") };
 }
 
 async function resolveNotebookPath(path: string, baseUri?: vscode.Uri): Promise<vscode.Uri | undefined> {
   try {
+    path = expandHome(path);
     // If path is absolute, use it directly
-    if (path.startsWith('/') || (process.platform === 'win32' && /^[A-Za-z]:/.test(path))) {
+    if (isAbsoluteNotebookPath(path)) {
       return vscode.Uri.file(path);
     }
     // If path is relative and we have a base URI, resolve relative to it
@@ -77,61 +869,149 @@ async function resolveNotebookPath(path: string, baseUri?: vscode.Uri): Promise<
   }
 }
 
-async function loadNotebooksFromPath(notebookPath: string, workspaceFolder?: vscode.WorkspaceFolder, isLocal?: boolean): Promise<NotebookItem[]> {
+// Recursively collect .ipynb files below `dir`, pruning excluded folders and stopping at maxDepth
+async function collectNotebookUris(
+  dir: vscode.Uri,
+  relDir: string,
+  depth: number,
+  options: NotebookScanOptions,
+  matcher: RegExp | undefined,
+  exclude: { whole: RegExp[]; segment: RegExp[] },
+  out: vscode.Uri[]
+): Promise<void> {
+  let entries: [string, vscode.FileType][];
+  try {
+    entries = await vscode.workspace.fs.readDirectory(dir);
+  } catch {
+    return;
+  }
+
+  for (const [name, type] of entries) {
+    const relPath = relDir ? `${relDir}/${name}` : name;
+    if (isExcluded(relPath, exclude.whole, exclude.segment)) continue;
+
+    if (type === vscode.FileType.Directory) {
+      if (depth < options.maxDepth) {
+        await collectNotebookUris(vscode.Uri.joinPath(dir, name), relPath, depth + 1, options, matcher, exclude, out);
+      }
+    } else if (type === vscode.FileType.File && name.endsWith('.ipynb') && (!matcher || matcher.test(relPath))) {
+      out.push(vscode.Uri.joinPath(dir, name));
+    }
+  }
+}
+
+/**
+ * Notebooks for one configured entry: a .ipynb file, a directory (searched recursively)
+ * or a glob such as `analysis/**\/*.ipynb`. `groupRoot` is the folder the displayed
+ * folder hierarchy is relative to.
+ */
+async function loadNotebooksFromPath(
+  notebookPath: string,
+  options: NotebookScanOptions,
+  workspaceFolder?: vscode.WorkspaceFolder,
+  isLocal?: boolean
+): Promise<NotebookItem[]> {
   const notebooks: NotebookItem[] = [];
   try {
+    // Split a glob into its literal base directory and the pattern below it
+    const { basePath, glob } = splitNotebookGlob(notebookPath);
+    const matcher = glob === undefined ? undefined : globToRegExp(glob);
+
     const baseUri = workspaceFolder?.uri;
-    const uri = await resolveNotebookPath(notebookPath, baseUri);
+    const uri = await resolveNotebookPath(basePath, baseUri);
     if (!uri) {
       return notebooks;
     }
 
     const stat = await vscode.workspace.fs.stat(uri);
-    
-    // If it's a file and ends with .ipynb, add it directly
-    if (stat.type === vscode.FileType.File && uri.fsPath.endsWith('.ipynb')) {
-      const baseName = uri.fsPath.split(/[/\\]/).pop()?.replace(/\.ipynb$/, '') || 'notebook';
-      notebooks.push({
-        id: `notebook::${uri.toString()}`,
-        name: baseName,
-        uri: uri,
+
+    const toItem = (notebookUri: vscode.Uri, groupRoot?: vscode.Uri): NotebookItem => {
+      const rel = groupRoot ? path.relative(groupRoot.fsPath, path.dirname(notebookUri.fsPath)) : "";
+      return {
+        id: `notebook::${notebookUri.toString()}`,
+        name: path.basename(notebookUri.fsPath).replace(/\.ipynb$/, '') || 'notebook',
+        uri: notebookUri,
+        folder: rel && !rel.startsWith("..") ? rel.split(path.sep).join("/") : undefined,
         workspaceFolder,
         isLocal,
-      });
+      };
+    };
+
+    // Inside the workspace folder, group relative to its root; elsewhere relative to the entry's parent
+    const isInside = (u: vscode.Uri) =>
+      !!workspaceFolder && !path.relative(workspaceFolder.uri.fsPath, u.fsPath).startsWith("..");
+
+    // If it's a file and ends with .ipynb, add it directly
+    if (stat.type === vscode.FileType.File && uri.fsPath.endsWith('.ipynb')) {
+      notebooks.push(toItem(uri, isInside(uri) ? workspaceFolder!.uri : undefined));
       return notebooks;
     }
-    
-    // If it's a directory, search for .ipynb files in it (non-recursive)
+
+    // If it's a directory, search it recursively (optionally filtered by the glob)
     if (stat.type === vscode.FileType.Directory) {
-      const entries = await vscode.workspace.fs.readDirectory(uri);
-      for (const [name, type] of entries) {
-        if (type === vscode.FileType.File && name.endsWith('.ipynb')) {
-          const notebookUri = vscode.Uri.joinPath(uri, name);
-          const baseName = name.replace(/\.ipynb$/, '');
-          notebooks.push({
-            id: `notebook::${notebookUri.toString()}`,
-            name: baseName,
-            uri: notebookUri,
-            workspaceFolder,
-            isLocal,
-          });
-        }
-      }
+      const exclude = {
+        whole: options.exclude.filter((p) => p.includes("/")).map(globToRegExp),
+        segment: options.exclude.filter((p) => !p.includes("/")).map(globToRegExp),
+      };
+      const uris: vscode.Uri[] = [];
+      await collectNotebookUris(uri, "", 0, options, matcher, exclude, uris);
+
+      const groupRoot = isInside(uri) ? workspaceFolder!.uri : vscode.Uri.joinPath(uri, "..");
+      notebooks.push(...uris.map((u) => toItem(u, groupRoot)));
     }
   } catch (error) {
     // Ignore errors (path doesn't exist, permission denied, etc.)
-    const outputChannel = vscode.window.createOutputChannel("Better Run");
+    const outputChannel = getOutputChannel();
     outputChannel.appendLine(`Better Run: Could not load notebook from path: ${notebookPath} - ${error}`);
   }
   return notebooks;
 }
 
+// User data folder names of known VS Code based products
+const KNOWN_PRODUCT_DIRS = ["Code", "Code - Insiders", "Cursor", "VSCodium", "Code - OSS"];
+
+// Map the running product's `vscode.env.appName` to its user data folder name
+function currentProductDir(): string | undefined {
+  const appName = vscode.env.appName ?? "";
+  if (/insiders/i.test(appName)) return "Code - Insiders";
+  if (/cursor/i.test(appName)) return "Cursor";
+  if (/vscodium/i.test(appName)) return "VSCodium";
+  if (/code - oss/i.test(appName)) return "Code - OSS";
+  if (/visual studio code/i.test(appName)) return "Code";
+  return undefined;
+}
+
+// Per-platform folder holding `<product>/User/settings.json`
+function getUserDataRoot(): string | undefined {
+  const home = os.homedir();
+  switch (process.platform) {
+    case "darwin":
+      return path.join(home, "Library", "Application Support");
+    case "win32":
+      return process.env.APPDATA ?? (home ? path.join(home, "AppData", "Roaming") : undefined);
+    default:
+      return process.env.XDG_CONFIG_HOME || (home ? path.join(home, ".config") : undefined);
+  }
+}
+
 function getUserSettingsUris(): vscode.Uri[] {
-  const home = process.env.HOME ?? "";
-  const candidates = [
-    `${home}/Library/Application Support/Cursor/User/settings.json`,
-    `${home}/Library/Application Support/Code/User/settings.json`,
-  ].filter(Boolean);
+  const candidates: string[] = [];
+
+  // Portable mode keeps user data next to the installation
+  const portable = process.env.VSCODE_PORTABLE;
+  if (portable) {
+    candidates.push(path.join(portable, "user-data", "User", "settings.json"));
+  }
+
+  // Prefer the running product, then any other known product
+  const root = getUserDataRoot();
+  if (root) {
+    const current = currentProductDir();
+    const products = current ? [current, ...KNOWN_PRODUCT_DIRS.filter((p) => p !== current)] : KNOWN_PRODUCT_DIRS;
+    for (const product of products) {
+      candidates.push(path.join(root, product, "User", "settings.json"));
+    }
+  }
 
   return candidates.map((p) => vscode.Uri.file(p));
 }
@@ -148,78 +1028,367 @@ async function firstExistingUri(uris: vscode.Uri[]): Promise<vscode.Uri | undefi
   return undefined;
 }
 
-function resolveTaskCategory(label: string, rules: CategoryRule[], byLabel: Record<string, string>): string | undefined {
-  const exact = byLabel[label];
-  if (exact && exact.trim()) return exact.trim();
+// `dependsOn` is a label, a list of labels, or task identifiers like { "type": "npm", "script": "build" }
+function parseDependsOn(def: any): string[] | undefined {
+  const raw = def?.dependsOn;
+  if (raw === undefined) return undefined;
 
-  for (const r of rules) {
-    try {
-      const re = new RegExp(r.pattern, "i");
-      if (re.test(label)) return r.category;
-    } catch {
-      // ignore invalid regex
+  const names = (Array.isArray(raw) ? raw : [raw])
+    .map((d: any) => {
+      if (typeof d === "string") return d;
+      if (typeof d?.label === "string") return d.label;
+      if (typeof d?.task === "string") return d.task;
+      if (typeof d?.type === "string" && typeof d?.script === "string") return `${d.type}: ${d.script}`;
+      return undefined;
+    })
+    .map((name: string | undefined) => name?.trim())
+    .filter((name: string | undefined): name is string => !!name);
+  return names.length ? names : undefined;
+}
+
+// Resolve `dependsOn` names like VS Code does: the same folder first, then workspace-level tasks.
+// Auto-detected tasks also answer to their "<source>: <name>" label (e.g. "npm: build").
+function resolveTaskDependencies(tasks: TaskItem[]): void {
+  const labelsOf = (t: TaskItem) =>
+    t.detectedTask ? [t.label, `${t.detectedTask.source}: ${t.label}`] : [t.label];
+
+  for (const task of tasks) {
+    if (!task.dependsOn) continue;
+    const dependencies: TaskItem[] = [];
+    const missingDependencies: string[] = [];
+
+    for (const name of task.dependsOn) {
+      const named = tasks.filter((t) => labelsOf(t).includes(name));
+      const match =
+        named.find((t) => t.source.id === task.source.id) ??
+        named.find((t) => task.workspaceFolder && t.workspaceFolder?.uri.toString() === task.workspaceFolder.uri.toString()) ??
+        named.find((t) => t.source.isWorkspaceFile);
+
+      if (match) {
+        dependencies.push(match);
+      } else {
+        missingDependencies.push(name);
+      }
     }
+
+    task.dependencies = dependencies;
+    task.missingDependencies = missingDependencies;
+  }
+}
+
+// Path of the defining file relative to its workspace folder, for `field: "source"` rules
+function sourcePathOf(source: SourceRef): string {
+  const wf = source.workspaceFolder;
+  if (!source.uri) return source.label;
+  return wf ? path.relative(wf.uri.fsPath, source.uri.fsPath).split(path.sep).join("/") : source.uri.fsPath;
+}
+
+function launchSubject(name: string, config: any, source: SourceRef): CategorySubject {
+  const program = config?.program ?? config?.module;
+  return {
+    label: name,
+    command: typeof config?.command === "string" ? config.command : undefined,
+    program: typeof program === "string" ? program : undefined,
+    source: sourcePathOf(source),
+    type: typeof config?.type === "string" ? config.type : undefined,
+  };
+}
+
+// tasks.json-style command: `command` plus `args` (strings or quoted-string objects)
+function taskCommandLine(def: any): string | undefined {
+  const command = typeof def?.command === "string" ? def.command : def?.command?.value;
+  if (typeof command !== "string") return undefined;
+  const args = (Array.isArray(def.args) ? def.args : []).map((a: any) => (typeof a === "string" ? a : String(a?.value ?? "")));
+  return [command, ...args].join(" ");
+}
+
+function taskSubject(label: string, source: SourceRef, command?: string, type?: string): CategorySubject {
+  return { label, command, source: sourcePathOf(source), type };
+}
+
+// Subjects of loaded items, for the Runs view filter (same fields the category rules match on)
+export function launchItemSubject(item: LaunchItem): CategorySubject {
+  return launchSubject(item.name, item.config, item.source);
+}
+
+export function compoundItemSubject(item: CompoundItem): CategorySubject {
+  return { label: item.name, source: sourcePathOf(item.source), type: "compound" };
+}
+
+export function taskItemSubject(item: TaskItem): CategorySubject {
+  if (item.userTask) {
+    const spec = platformTaskSpec(item.userTask);
+    return taskSubject(item.label, item.source, taskCommandLine(spec), spec.type ?? "shell");
+  }
+  const execution = item.detectedTask?.execution;
+  if (execution instanceof vscode.ShellExecution) {
+    const command = execution.commandLine ?? taskCommandLine({ command: execution.command, args: execution.args });
+    return taskSubject(item.label, item.source, command, item.detectedTask?.definition.type);
   }
+  if (execution instanceof vscode.ProcessExecution) {
+    return taskSubject(item.label, item.source, [execution.process, ...execution.args].join(" "), item.detectedTask?.definition.type);
+  }
+  return taskSubject(item.label, item.source, taskCommandLine(item.definition), item.definition?.type ?? item.detectedTask?.definition.type);
+}
+
+// An explicit `category` on the entry wins over the rules
+function explicitCategory(entry: any): string | undefined {
+  return normalizeCategory(entry?.category);
+}
+
+// The saved `.code-workspace` file of a multi-root window (untitled workspaces have none on disk)
+function getWorkspaceFileUri(): vscode.Uri | undefined {
+  const uri = vscode.workspace.workspaceFile;
+  return uri && uri.scheme !== "untitled" ? uri : undefined;
+}
 
-  // Optional fallback: treat "X: ..." as category
-  const m = label.match(/^([^:]+):\s*/);
-  if (m?.[1]) return m[1].trim();
+// ---------- Nested (monorepo) .vscode folders ----------
 
-  return undefined; // <-- key change: no category means "top level"
+const DEFAULT_NESTED_CONFIG_INCLUDE = ["**/.vscode"];
+const DEFAULT_NESTED_CONFIG_EXCLUDE = ["**/node_modules/**", "**/.git/**"];
+const MAX_NESTED_CONFIG_FILES = 500;
+
+interface ConfigDir {
+  uri: vscode.Uri;
+  // Set for nested package folders only
+  packageRoot?: vscode.Uri;
+  packagePath?: string;
 }
 
-function resolveLaunchCategory(name: string, rules: CategoryRule[], byLabel: Record<string, string>): string | undefined {
-  const exact = byLabel[name];
-  if (exact && exact.trim()) return exact.trim();
+function getNestedConfigGlobs(): { include: string[]; exclude: string[] } {
+  const cfg = vscode.workspace.getConfiguration("betterRun");
+  return {
+    include: (cfg.get<string[]>("nestedConfigFolders") ?? DEFAULT_NESTED_CONFIG_INCLUDE).filter(Boolean),
+    exclude: (cfg.get<string[]>("nestedConfigExclude") ?? DEFAULT_NESTED_CONFIG_EXCLUDE).filter(Boolean),
+  };
+}
+
+// Discovered config dirs per workspace folder uri; the workspace-wide search only reruns once
+// the watcher reports a config file created or deleted (or settings change)
+const configDirsCache: Map<string, ConfigDir[]> = new Map();
+
+export function invalidateConfigDirs(): void {
+  configDirsCache.clear();
+}
 
-  for (const r of rules) {
+// Patterns switched on in `files.exclude` / `search.exclude`; an explicit exclude passed to
+// findFiles replaces those defaults, so they are merged in
+function userExcludeGlobs(wf: vscode.WorkspaceFolder): string[] {
+  const enabled = (section: string) =>
+    Object.entries(vscode.workspace.getConfiguration(section, wf.uri).get<Record<string, unknown>>("exclude") ?? {})
+      .filter(([, on]) => on === true)
+      .map(([glob]) => glob);
+  return [...enabled("files"), ...enabled("search")];
+}
+
+// The folder's own `.vscode` plus every nested `.vscode` folder matching the discovery globs
+async function findConfigDirs(wf: vscode.WorkspaceFolder): Promise<ConfigDir[]> {
+  const cached = configDirsCache.get(wf.uri.toString());
+  if (cached) return cached;
+
+  const rootDir = vscode.Uri.joinPath(wf.uri, ".vscode");
+  const dirs: ConfigDir[] = [{ uri: rootDir }];
+  const { include, exclude } = getNestedConfigGlobs();
+  if (!include.length) {
+    configDirsCache.set(wf.uri.toString(), dirs);
+    return dirs;
+  }
+
+  const seen = new Set<string>([rootDir.toString()]);
+  const excludes = Array.from(new Set([...exclude, ...userExcludeGlobs(wf)]));
+  const excludeGlob = excludes.length ? `{${excludes.join(",")}}` : null;
+  for (const glob of include) {
+    let files: vscode.Uri[];
     try {
-      const re = new RegExp(r.pattern, "i");
-      if (re.test(name)) return r.category;
+      files = await vscode.workspace.findFiles(new vscode.RelativePattern(wf, `${glob}/{launch,tasks}.json`), excludeGlob, MAX_NESTED_CONFIG_FILES);
     } catch {
-      // ignore invalid regex
+      continue;
+    }
+    if (files.length >= MAX_NESTED_CONFIG_FILES) {
+      getOutputChannel().appendLine(
+        `Better Run: more than ${MAX_NESTED_CONFIG_FILES} nested config files match '${glob}' in ${wf.name}; only the first ${MAX_NESTED_CONFIG_FILES} are loaded. Narrow betterRun.nestedConfigFolders or extend betterRun.nestedConfigExclude.`
+      );
+    }
+    for (const file of files) {
+      const dir = vscode.Uri.joinPath(file, "..");
+      if (seen.has(dir.toString())) continue;
+      seen.add(dir.toString());
+
+      const packageRoot = vscode.Uri.joinPath(dir, "..");
+      const packagePath = path.relative(wf.uri.fsPath, packageRoot.fsPath).split(path.sep).join("/");
+      dirs.push({ uri: dir, packageRoot, packagePath });
     }
   }
 
-  // Optional fallback: treat "X: ..." as category
-  const m = name.match(/^([^:]+):\s*/);
-  if (m?.[1]) return m[1].trim();
+  dirs.sort((a, b) => (a.packagePath ?? "").localeCompare(b.packagePath ?? ""));
+  configDirsCache.set(wf.uri.toString(), dirs);
+  return dirs;
+}
 
-  return undefined;
+// Resolve ${workspaceFolder} and friends to the package directory, since VS Code itself
+// would resolve them to the workspace folder root
+function resolvePackageVariables(value: any, packageRoot: vscode.Uri): any {
+  if (typeof value === "string") {
+    return value
+      .replace(/\$\{(workspaceFolder|workspaceRoot)\}/g, packageRoot.fsPath)
+      .replace(/\$\{workspaceFolderBasename\}/g, path.basename(packageRoot.fsPath));
+  }
+  if (Array.isArray(value)) return value.map((v) => resolvePackageVariables(v, packageRoot));
+  if (value && typeof value === "object") {
+    const out: any = {};
+    for (const [k, v] of Object.entries(value)) out[k] = resolvePackageVariables(v, packageRoot);
+    return out;
+  }
+  return value;
 }
 
+// Tasks defined in tasks.json / .code-workspace are reported by fetchTasks() with this source
+const WORKSPACE_TASK_SOURCE = "Workspace";
 
-function categorizeTaskLabel(label: string, rules: CategoryRule[]): string {
-  for (const r of rules) {
-    try {
-      const re = new RegExp(r.pattern, "i");
-      if (re.test(label)) return r.category;
-    } catch {
-      // invalid regex -> ignore
+// Provider-contributed tasks, grouped per workspace folder and task source (npm, gulp, ...)
+async function loadDetectedTasks(
+  workspaceFolders: readonly vscode.WorkspaceFolder[],
+  categorize: Categorizer
+): Promise<{ sources: SourceRef[]; tasks: TaskItem[] }> {
+  const sources = new Map<string, SourceRef>();
+  const tasks: TaskItem[] = [];
+
+  let fetched: vscode.Task[];
+  try {
+    fetched = await vscode.tasks.fetchTasks();
+  } catch {
+    return { sources: [], tasks: [] };
+  }
+
+  for (const t of fetched) {
+    if (t.source === WORKSPACE_TASK_SOURCE) continue;
+
+    // Only folder-scoped tasks can be placed under a workspace folder node
+    const scope = t.scope && typeof t.scope === "object" && "uri" in (t.scope as any)
+      ? (t.scope as vscode.WorkspaceFolder)
+      : undefined;
+    const wf = scope && workspaceFolders.find((f) => f.uri.toString() === scope.uri.toString());
+    if (!wf) continue;
+
+    const taskSource = t.source || t.definition?.type || "other";
+    const sourceId = `task::detected::${wf.uri.toString()}::${taskSource}`;
+    let source = sources.get(sourceId);
+    if (!source) {
+      source = {
+        id: sourceId,
+        label: `Auto-detected (${taskSource})`,
+        workspaceFolder: wf,
+        kind: "tasks",
+      };
+      sources.set(sourceId, source);
+    }
+
+    const label = t.name.trim();
+    if (!label) continue;
+
+    // Category rules apply first; otherwise group by the providing source
+    const execution = t.execution;
+    const command = execution instanceof vscode.ShellExecution
+      ? execution.commandLine ?? taskCommandLine({ command: execution.command, args: execution.args })
+      : execution instanceof vscode.ProcessExecution
+        ? [execution.process, ...execution.args].join(" ")
+        : undefined;
+    const category = categorize.task(taskSubject(label, source, command, t.definition?.type)) ?? taskSource;
+
+    tasks.push({
+      id: `${sourceId}::${label}`,
+      label,
+      category,
+      workspaceFolder: wf,
+      detectedTask: t,
+      source,
+    });
+  }
+
+  return { sources: Array.from(sources.values()), tasks };
+}
+
+// Files read by loadLaunchesAndTasks, used to auto-refresh the tree when they change.
+// User settings are covered by onDidChangeConfiguration instead.
+export function getWatchPatterns(): vscode.GlobPattern[] {
+  const patterns: vscode.GlobPattern[] = [];
+  for (const wf of vscode.workspace.workspaceFolders ?? []) {
+    patterns.push(new vscode.RelativePattern(wf, ".vscode/{launch,tasks,notebooks}.json"));
+    for (const glob of getNestedConfigGlobs().include) {
+      patterns.push(new vscode.RelativePattern(wf, `${glob}/{launch,tasks}.json`));
+    }
+    patterns.push(new vscode.RelativePattern(wf, `{${BUILD_FILES.flatMap((b) => b.fileNames).join(",")}}`));
+    patterns.push(new vscode.RelativePattern(wf, `{${PYTHON_FILES.map((f) => f.fileName).join(",")},pytest.ini}`));
+    patterns.push(new vscode.RelativePattern(wf, `{${COMPOSE_FILE_NAMES.join(",")}}`));
+  }
+  // Auto-detected npm scripts follow package.json
+  if (vscode.workspace.getConfiguration("betterRun").get<boolean>("showAutoDetectedTasks", true)) {
+    for (const wf of vscode.workspace.workspaceFolders ?? []) {
+      patterns.push(new vscode.RelativePattern(wf, "package.json"));
     }
   }
+  const workspaceFile = getWorkspaceFileUri();
+  if (workspaceFile) {
+    patterns.push(new vscode.RelativePattern(vscode.Uri.joinPath(workspaceFile, ".."), path.basename(workspaceFile.fsPath)));
+  }
+  return patterns;
+}
 
-  const m = label.match(/^([^:]+):\s*/);
-  if (m?.[1]) return m[1].trim();
+// Notebooks only need a refresh when they appear or disappear, not on every save
+export function getNotebookWatchPatterns(): vscode.GlobPattern[] {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const patterns: vscode.GlobPattern[] = folders.map((wf) => new vscode.RelativePattern(wf, "**/*.ipynb"));
 
-  return "Other";
+  // Absolute `userNotebookPaths` outside every workspace folder get a watcher of their own
+  const userPaths = vscode.workspace.getConfiguration("betterRun").get<string[]>("userNotebookPaths") ?? [];
+  for (const entry of userPaths) {
+    if (typeof entry !== "string" || !entry.trim()) continue;
+    const { basePath, glob } = splitNotebookGlob(expandHome(entry.trim()));
+    if (!isAbsoluteNotebookPath(basePath)) continue;
+    const inside = folders.some((wf) => {
+      const rel = path.relative(wf.uri.fsPath, basePath);
+      return !rel.startsWith("..") && !path.isAbsolute(rel);
+    });
+    if (inside) continue;
+    patterns.push(
+      glob === undefined && basePath.endsWith(".ipynb")
+        ? new vscode.RelativePattern(vscode.Uri.file(path.dirname(basePath)), path.basename(basePath))
+        : new vscode.RelativePattern(vscode.Uri.file(basePath), "**/*.ipynb")
+    );
+  }
+  return patterns;
 }
 
 export async function loadLaunchesAndTasks(): Promise<{
   launchSources: SourceRef[];
   launches: LaunchItem[];
+  compounds: CompoundItem[];
   taskSources: SourceRef[];
   tasks: TaskItem[];
   notebooks: NotebookItem[];
+  services: ServiceItem[];
+  problems: ConfigProblem[];
 }> {
   const cfg = vscode.workspace.getConfiguration("betterRun");
   const userLaunches = (cfg.get<any[]>("userLaunches") ?? []).filter(Boolean);
   const userTasks = (cfg.get<UserTaskSpec[]>("userTasks") ?? []).filter(Boolean);
-  const rules = (cfg.get<CategoryRule[]>("taskCategoryRules") ?? []).filter(Boolean);
-  const byLabel = (cfg.get<Record<string, string>>("taskCategoryByLabel") ?? {});
+  const taskRules = (cfg.get<CategoryRule[]>("taskCategoryRules") ?? []).filter(Boolean);
+  // Launches share the task rules unless launchCategoryRules is set explicitly
+  const launchRulesKey = isSettingDefined(cfg, "launchCategoryRules") ? "launchCategoryRules" : "taskCategoryRules";
+  const launchRules = (cfg.get<CategoryRule[]>(launchRulesKey) ?? []).filter(Boolean);
+  const categorize = createCategorizer({
+    launchRules,
+    taskRules,
+    byLabel: cfg.get<Record<string, string>>("taskCategoryByLabel") ?? {},
+  });
   const userNotebookPaths = (cfg.get<string[]>("userNotebookPaths") ?? []).filter(Boolean);
+  const notebookOptions: NotebookScanOptions = {
+    exclude: cfg.get<string[]>("notebookExclude") ?? DEFAULT_NOTEBOOK_EXCLUDE,
+    maxDepth: cfg.get<number>("notebookMaxDepth") ?? DEFAULT_NOTEBOOK_MAX_DEPTH,
+  };
+  const showAutoDetectedTasks = cfg.get<boolean>("showAutoDetectedTasks", true);
   
-  const outputChannel = vscode.window.createOutputChannel("Better Run");
+  const outputChannel = getOutputChannel();
   if (userNotebookPaths.length > 0) {
     outputChannel.appendLine(`Better Run: Found ${userNotebookPaths.length} user notebook paths`);
   }
@@ -229,146 +1398,310 @@ export async function loadLaunchesAndTasks(): Promise<{
   const launchSources: SourceRef[] = [];
   const taskSources: SourceRef[] = [];
   const launches: LaunchItem[] = [];
+  const compounds: CompoundItem[] = [];
   const tasks: TaskItem[] = [];
   const notebooks: NotebookItem[] = [];
+  const services: ServiceItem[] = [];
+  const problems: ConfigProblem[] = [];
+
+  // Compounds are resolved once every launch.json is loaded, since members may live in other folders
+  const pendingCompounds: { raw: any; source: SourceRef; workspaceFolder?: vscode.WorkspaceFolder; jsonPath: JSONPath }[] = [];
 
-  // Workspace launch.json
+  // Monorepo packages can carry their own .vscode folder below each workspace root
+  const configDirsByFolder = new Map<string, ConfigDir[]>();
   for (const wf of workspaceFolders) {
-    const uri = vscode.Uri.joinPath(wf.uri, ".vscode", "launch.json");
-    const json = await readJsonc(uri);
-    if (json && Array.isArray(json.configurations)) {
-      const source: SourceRef = {
-        id: `launch::${uri.toString()}`,
-        label: `launch.json`,
-        uri,
-        workspaceFolder: wf,
-        kind: "launches",
-      };
-      launchSources.push(source);
+    configDirsByFolder.set(wf.uri.toString(), await findConfigDirs(wf));
+  }
+
+  // Workspace launch.json (root and nested package folders)
+  for (const wf of workspaceFolders) {
+    for (const configDir of configDirsByFolder.get(wf.uri.toString()) ?? []) {
+      const uri = vscode.Uri.joinPath(configDir.uri, "launch.json");
+      const json = await readJsonc(uri, problems);
+      if (json && (Array.isArray(json.configurations) || Array.isArray(json.compounds))) {
+        const source: SourceRef = {
+          id: `launch::${uri.toString()}`,
+          label: configDir.packagePath ?? `launch.json`,
+          uri,
+          workspaceFolder: wf,
+          kind: "launches",
+          packageRoot: configDir.packageRoot,
+          packagePath: configDir.packagePath,
+        };
+        launchSources.push(source);
 
-      for (const c of json.configurations as any[]) {
-        const name = String(c?.name ?? "").trim();
-        if (!name) continue;
+        const seen = new Map<string, number>();
+        ((json.configurations ?? []) as any[]).forEach((c, index) => {
+          const name = String(c?.name ?? "").trim();
+          if (!name) return reportMissingName(source, problems, ["configurations", index, "name"], "Launch configuration");
         
-        // Resolve category: explicit category field, or pattern matching
-        const category = (c?.category && String(c.category).trim()) 
-          ? String(c.category).trim() 
-          : resolveLaunchCategory(name, rules, byLabel);
+          // Resolve category: explicit category field, or the launch rules
+          const category = explicitCategory(c) ?? categorize.launch(launchSubject(name, c, source));
         
-        launches.push({
-          id: `${source.id}::${name}`,
-          name,
-          category,
-          config: c,
-          workspaceFolder: wf,
-          source,
+          launches.push({
+            id: claimItemId(source, name, seen, problems, ["configurations", index, "name"]),
+            name,
+            category,
+            config: configDir.packageRoot ? { cwd: configDir.packageRoot.fsPath, ...resolvePackageVariables(c, configDir.packageRoot) } : c,
+            workspaceFolder: wf,
+            source,
+            jsonPath: ["configurations", index],
+          });
+        });
+
+        ((json.compounds ?? []) as any[]).forEach((raw, index) => {
+          pendingCompounds.push({ raw, source, workspaceFolder: wf, jsonPath: ["compounds", index] });
         });
       }
     }
   }
 
-  // Workspace tasks.json
-  for (const wf of workspaceFolders) {
-    const uri = vscode.Uri.joinPath(wf.uri, ".vscode", "tasks.json");
-    const json = await readJsonc(uri);
-    if (json && Array.isArray(json.tasks)) {
-      const source: SourceRef = {
-        id: `task::${uri.toString()}`,
-        label: `tasks.json`,
-        uri,
-        workspaceFolder: wf,
-        kind: "tasks",
-      };
-      taskSources.push(source);
+  // Multi-root `.code-workspace` file: shared `launch` and `tasks` blocks
+  const workspaceFileUri = getWorkspaceFileUri();
+  const workspaceFileJson = workspaceFileUri ? await readJsonc(workspaceFileUri, problems) : undefined;
+  const wsLaunch = workspaceFileJson?.launch;
+  if (workspaceFileUri && wsLaunch && (Array.isArray(wsLaunch.configurations) || Array.isArray(wsLaunch.compounds))) {
+    const source: SourceRef = {
+      id: `launch::workspacefile::${workspaceFileUri.toString()}`,
+      label: path.basename(workspaceFileUri.fsPath),
+      uri: workspaceFileUri,
+      kind: "launches",
+      isWorkspaceFile: true,
+    };
+    launchSources.push(source);
 
-      for (const t of json.tasks as any[]) {
-        const label = String(t?.label ?? "").trim();
-        if (!label) continue;
+    const seen = new Map<string, number>();
+    ((wsLaunch.configurations ?? []) as any[]).forEach((c, index) => {
+      const name = String(c?.name ?? "").trim();
+      if (!name) return reportMissingName(source, problems, ["launch", "configurations", index, "name"], "Launch configuration");
 
-        const category = resolveTaskCategory(label, rules, byLabel);
+      const category = explicitCategory(c) ?? categorize.launch(launchSubject(name, c, source));
 
-        tasks.push({
-          id: `${source.id}::${label}`,
-          label,
-          category,
-          workspaceFolder: wf,
-          source,
-        });
-      }
-    }
+      // No workspaceFolder: these are started with the workspace scope
+      launches.push({
+        id: claimItemId(source, name, seen, problems, ["launch", "configurations", index, "name"]),
+        name,
+        category,
+        config: c,
+        source,
+        jsonPath: ["launch", "configurations", index],
+      });
+    });
+
+    ((wsLaunch.compounds ?? []) as any[]).forEach((raw, index) => {
+      pendingCompounds.push({ raw, source, jsonPath: ["launch", "compounds", index] });
+    });
   }
 
-  // User settings.json as a source
-  const userSettingsUri = await firstExistingUri(getUserSettingsUris());
-  if (userSettingsUri) {
-    if (userLaunches.length) {
-      const source: SourceRef = {
-        id: `launch::usersettings::${userSettingsUri.toString()}`,
-        label: `User settings`,
-        uri: userSettingsUri,
-        kind: "launches",
-        isUserSettings: true,
-      };
-      
-      launchSources.push(source);
-      for (const c of userLaunches) {
-        const name = String(c?.name ?? "").trim();
-        if (!name) continue;
-        
-        // Resolve category: explicit category field, or pattern matching
-        const category = (c?.category && String(c.category).trim()) 
-          ? String(c.category).trim() 
-          : resolveLaunchCategory(name, rules, byLabel);
-        
-        launches.push({
-          id: `${source.id}::${name}`,
-          name,
-          category,
-          config: c,
-          source,
-        });
-      }
+  const seenCompounds = new Map<string, Map<string, number>>();
+  for (const { raw, source, workspaceFolder, jsonPath } of pendingCompounds) {
+    const name = String(raw?.name ?? "").trim();
+    if (!name) {
+      reportMissingName(source, problems, [...jsonPath, "name"], "Compound");
+      continue;
     }
+    if (!seenCompounds.has(source.id)) seenCompounds.set(source.id, new Map<string, number>());
 
-    if (userTasks.length) {
-      const source: SourceRef = {
-        id: `task::usersettings::${userSettingsUri.toString()}`,
-        label: `User settings`,
-        uri: userSettingsUri,
-        kind: "tasks",
-        isUserSettings: true,
-      };
-      taskSources.push(source);
+    const category = explicitCategory(raw) ?? categorize.launch({ label: name, source: sourcePathOf(source) });
+
+    const { members, missingMembers } = resolveCompoundMembers(raw, source, launches);
 
-      for (const t of userTasks) {
-        const label = String(t?.label ?? "").trim();
-        if (!label) continue;
+    compounds.push({
+      id: claimItemId(source, name, seenCompounds.get(source.id)!, problems, [...jsonPath, "name"], "compound name", `${source.id}::compound`),
+      name,
+      category,
+      members,
+      missingMembers,
+      stopAll: raw?.stopAll === true,
+      workspaceFolder,
+      source,
+      jsonPath,
+    });
+  }
 
-        const category =
-          (t.category && String(t.category).trim()) || resolveTaskCategory(label, rules, byLabel);
+  // Workspace tasks.json (root and nested package folders)
+  for (const wf of workspaceFolders) {
+    for (const configDir of configDirsByFolder.get(wf.uri.toString()) ?? []) {
+      const uri = vscode.Uri.joinPath(configDir.uri, "tasks.json");
+      const json = await readJsonc(uri, problems);
+      if (json && Array.isArray(json.tasks)) {
+        const source: SourceRef = {
+          id: `task::${uri.toString()}`,
+          label: configDir.packagePath ?? `tasks.json`,
+          uri,
+          workspaceFolder: wf,
+          kind: "tasks",
+          packageRoot: configDir.packageRoot,
+          packagePath: configDir.packagePath,
+        };
+        taskSources.push(source);
 
+        const seen = new Map<string, number>();
+        (json.tasks as any[]).forEach((t, index) => {
+          const label = String(t?.label ?? "").trim();
+          if (!label) return reportMissingName(source, problems, ["tasks", index, "label"], "Task");
 
+          const category = explicitCategory(t) ?? categorize.task(taskSubject(label, source, taskCommandLine(t), t?.type));
 
-        tasks.push({
-          id: `${source.id}::${label}`,
-          label,
-          category,
-          userTask: t,
-          source,
+          tasks.push({
+            id: claimItemId(source, label, seen, problems, ["tasks", index, "label"], "label"),
+            label,
+            category,
+            workspaceFolder: wf,
+            definition: configDir.packageRoot ? resolvePackageVariables(t, configDir.packageRoot) : t,
+            dependsOn: parseDependsOn(t),
+            dependsOrder: t?.dependsOrder === "sequence" ? "sequence" : undefined,
+            source,
+            jsonPath: ["tasks", index],
+          });
         });
       }
     }
   }
 
+  // `.code-workspace` tasks block
+  const wsTasks = workspaceFileJson?.tasks;
+  if (workspaceFileUri && wsTasks && Array.isArray(wsTasks.tasks)) {
+    const source: SourceRef = {
+      id: `task::workspacefile::${workspaceFileUri.toString()}`,
+      label: path.basename(workspaceFileUri.fsPath),
+      uri: workspaceFileUri,
+      kind: "tasks",
+      isWorkspaceFile: true,
+    };
+    taskSources.push(source);
+
+    const seen = new Map<string, number>();
+    (wsTasks.tasks as any[]).forEach((t, index) => {
+      const label = String(t?.label ?? "").trim();
+      if (!label) return reportMissingName(source, problems, ["tasks", "tasks", index, "label"], "Task");
+
+      tasks.push({
+        id: claimItemId(source, label, seen, problems, ["tasks", "tasks", index, "label"], "label"),
+        label,
+        category: explicitCategory(t) ?? categorize.task(taskSubject(label, source, taskCommandLine(t), t?.type)),
+        dependsOn: parseDependsOn(t),
+        dependsOrder: t?.dependsOrder === "sequence" ? "sequence" : undefined,
+        source,
+        jsonPath: ["tasks", "tasks", index],
+      });
+    });
+  }
+
+  // Makefile / justfile / Taskfile.yml targets
+  for (const wf of workspaceFolders) {
+    const buildFileTasks = await loadBuildFileTasks(wf, categorize);
+    taskSources.push(...buildFileTasks.sources);
+    tasks.push(...buildFileTasks.tasks);
+  }
+
+  // Python project entry points: pyproject scripts, pdm scripts, tox envs, nox sessions, pytest
+  for (const wf of workspaceFolders) {
+    const python = await loadPythonProject(wf, categorize);
+    launchSources.push(...python.launchSources);
+    launches.push(...python.launches);
+    taskSources.push(...python.taskSources);
+    tasks.push(...python.tasks);
+  }
+
+  // docker compose services
+  for (const wf of workspaceFolders) {
+    services.push(...(await loadComposeServices(wf)));
+  }
+
+  // Provider-contributed tasks (npm scripts, gulp, typescript, ...)
+  if (showAutoDetectedTasks) {
+    const detected = await loadDetectedTasks(workspaceFolders, categorize);
+    taskSources.push(...detected.sources);
+    tasks.push(...detected.tasks);
+  }
+
+  // User settings.json as a source. If the file can't be located the items are still shown;
+  // go-to-definition then falls back to the "Open User Settings (JSON)" command.
+  const userSettingsUri = await firstExistingUri(getUserSettingsUris());
+  const userSettingsKey = userSettingsUri?.toString() ?? "unknown";
+  validateCategoryRules("taskCategoryRules", taskRules, settingDefinitionUri("taskCategoryRules", userSettingsUri), problems);
+  if (launchRulesKey === "launchCategoryRules") {
+    validateCategoryRules("launchCategoryRules", launchRules, settingDefinitionUri("launchCategoryRules", userSettingsUri), problems);
+  }
+  if (userLaunches.length) {
+    const source: SourceRef = {
+      id: `launch::usersettings::${userSettingsKey}`,
+      label: `User settings`,
+      uri: userSettingsUri,
+      kind: "launches",
+      isUserSettings: true,
+    };
+    
+    launchSources.push(source);
+    const seen = new Map<string, number>();
+    userLaunches.forEach((c, index) => {
+      const name = String(c?.name ?? "").trim();
+      if (!name) return reportMissingName(source, problems, ["betterRun.userLaunches", index, "name"], "User launch");
+      
+      // Resolve category: explicit category field, or the launch rules
+      const category = explicitCategory(c) ?? categorize.launch(launchSubject(name, c, source));
+      
+      launches.push({
+        id: claimItemId(source, name, seen, problems, ["betterRun.userLaunches", index, "name"]),
+        name,
+        category,
+        config: c,
+        source,
+        jsonPath: ["betterRun.userLaunches", index],
+      });
+    });
+  }
+
+  if (userTasks.length) {
+    const source: SourceRef = {
+      id: `task::usersettings::${userSettingsKey}`,
+      label: `User settings`,
+      uri: userSettingsUri,
+      kind: "tasks",
+      isUserSettings: true,
+    };
+    taskSources.push(source);
+
+    const seen = new Map<string, number>();
+    userTasks.forEach((t, index) => {
+      const label = String(t?.label ?? "").trim();
+      if (!label) return reportMissingName(source, problems, ["betterRun.userTasks", index, "label"], "User task");
+
+      const spec = platformTaskSpec(t);
+      const category = explicitCategory(t) ?? categorize.task(taskSubject(label, source, taskCommandLine(spec), spec.type ?? "shell"));
+
+      tasks.push({
+        id: claimItemId(source, label, seen, problems, ["betterRun.userTasks", index, "label"], "label"),
+        label,
+        category,
+        userTask: t,
+        source,
+        jsonPath: ["betterRun.userTasks", index],
+      });
+    });
+  }
+
+  // Composite tasks: link `dependsOn` to the loaded tasks now that every source is in
+  resolveTaskDependencies(tasks);
+
   // Find notebooks from workspace notebooks.json files
   for (const wf of workspaceFolders) {
     const notebooksJsonUri = vscode.Uri.joinPath(wf.uri, ".vscode", "notebooks.json");
-    const notebooksJson = await readJsonc(notebooksJsonUri);
+    const notebooksJson = await readJsonc(notebooksJsonUri, problems);
     if (notebooksJson && Array.isArray(notebooksJson.paths)) {
       outputChannel.appendLine(`Better Run: Found notebooks.json in ${wf.name} with ${notebooksJson.paths.length} paths`);
+      // notebooks.json may add its own excludes and override the depth limit
+      const folderOptions: NotebookScanOptions = {
+        exclude: [
+          ...notebookOptions.exclude,
+          ...(Array.isArray(notebooksJson.exclude) ? notebooksJson.exclude.filter((e: unknown) => typeof e === 'string' && e) : []),
+        ],
+        maxDepth: typeof notebooksJson.maxDepth === 'number' ? notebooksJson.maxDepth : notebookOptions.maxDepth,
+      };
       for (const path of notebooksJson.paths) {
         if (typeof path === 'string' && path.trim()) {
-          const pathNotebooks = await loadNotebooksFromPath(path.trim(), wf, false);
+          const pathNotebooks = await loadNotebooksFromPath(path.trim(), folderOptions, wf, false);
           notebooks.push(...pathNotebooks);
         }
       }
@@ -379,7 +1712,7 @@ export async function loadLaunchesAndTasks(): Promise<{
   for (const path of userNotebookPaths) {
     if (typeof path === 'string' && path.trim()) {
       outputChannel.appendLine(`Better Run: Processing user notebook path: "${path.trim()}"`);
-      const pathNotebooks = await loadNotebooksFromPath(path.trim(), undefined, true);
+      const pathNotebooks = await loadNotebooksFromPath(path.trim(), notebookOptions, undefined, true);
       notebooks.push(...pathNotebooks);
     }
   }
@@ -387,6 +1720,7 @@ export async function loadLaunchesAndTasks(): Promise<{
   launchSources.sort((a, b) => a.label.localeCompare(b.label));
   taskSources.sort((a, b) => a.label.localeCompare(b.label));
   launches.sort((a, b) => a.source.label.localeCompare(b.source.label) || a.name.localeCompare(b.name));
+  compounds.sort((a, b) => a.name.localeCompare(b.name));
   tasks.sort((a, b) => {
     const ac = a.category ?? "~";
     const bc = b.category ?? "~";
@@ -398,5 +1732,11 @@ export async function loadLaunchesAndTasks(): Promise<{
   });
   notebooks.sort((a: NotebookItem, b: NotebookItem) => a.name.localeCompare(b.name));
 
-  return { launchSources, launches, taskSources, tasks, notebooks };
+  // Overlapping paths/globs can find the same notebook twice
+  const seenNotebooks = new Set<string>();
+  const uniqueNotebooks = notebooks.filter((n) => !seenNotebooks.has(n.id) && !!seenNotebooks.add(n.id));
+
+  services.sort((a, b) => a.name.localeCompare(b.name));
+
+  return { launchSources, launches, compounds, taskSources, tasks, notebooks: uniqueNotebooks, services, problems };
 }
@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+import type { BetterRunTreeProvider } from "./tree";
+import type { HistoryEntry, RunHistory } from "./history";
+import type { LaunchItem, CompoundItem, TaskItem, ServiceItem } from "./sources";
+
+export const SHOW_RUN_STATUS_COMMAND = "betterRun.showRunStatus";
+
+type RunItem = LaunchItem | CompoundItem | TaskItem | ServiceItem;
+
+function isService(item: RunItem): item is ServiceItem {
+  return "composeFile" in item;
+}
+
+function itemLabel(item: RunItem): string {
+  return "name" in item ? item.name : item.label;
+}
+
+/**
+ * Status bar entry showing what Better Run is running (or what ran last), driven by the
+ * running state of the tree. Turns red while the last user task run has failed.
+ */
+export class RunStatusBar implements vscode.Disposable {
+  private readonly item = vscode.window.createStatusBarItem("betterRun.status", vscode.StatusBarAlignment.Left, 50);
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(
+    private readonly provider: BetterRunTreeProvider,
+    private readonly history: RunHistory
+  ) {
+    this.item.name = "Better Run";
+    this.item.command = SHOW_RUN_STATUS_COMMAND;
+    this.disposables = [
+      provider.onDidChangeRunState(() => this.update()),
+      history.onDidChange(() => this.update()),
+    ];
+    this.update();
+  }
+
+  private update(): void {
+    const running = this.provider.runningItems();
+    const last = this.history.entries()[0];
+    const lastResult = this.provider.getLastUserTaskResult();
+    const lastTaskFailed = !!lastResult && lastResult.result.exitCode !== 0;
+
+    if (running.length) {
+      const instances = running.reduce((sum, r) => sum + r.instances, 0);
+      this.item.text = instances === 1 ? `$(loading~spin) ${itemLabel(running[0].item)}` : `$(loading~spin) ${instances} running`;
+    } else if (last) {
+      const icon = last.status === "failed" ? "error" : last.status === "succeeded" ? "pass" : "history";
+      this.item.text = `$(${icon}) ${last.label}`;
+    } else {
+      this.item.hide();
+      return;
+    }
+
+    this.item.tooltip = [
+      ...running.map((r) => `Running: ${itemLabel(r.item)}${r.instances > 1 ? ` (${r.instances})` : ""}`),
+      last ? `Last run: ${last.label} (${last.status})` : undefined,
+      lastTaskFailed ? `Last user task failed${lastResult!.result.exitCode !== undefined ? ` with exit code ${lastResult!.result.exitCode}` : ""}` : undefined,
+      "Click to stop, restart or rerun",
+    ].filter(Boolean).join("\n");
+    this.item.backgroundColor = lastTaskFailed ? new vscode.ThemeColor("statusBarItem.errorBackground") : undefined;
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.item.dispose();
+  }
+}
+
+interface StatusPickItem extends vscode.QuickPickItem {
+  running?: RunItem;
+  last?: HistoryEntry;
+}
+
+const STOP_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("debug-stop"), tooltip: "Stop" };
+const RESTART_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("debug-restart"), tooltip: "Restart" };
+const OUTPUT_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("output"), tooltip: "Show Output" };
+const RERUN_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("debug-rerun"), tooltip: "Run Again" };
+const REDEBUG_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("debug-alt"), tooltip: "Debug Again" };
+
+/**
+ * Quick pick behind the status bar item: running items (Enter shows their output) and the
+ * last run item (Enter runs it again in the same mode).
+ */
+export async function showRunStatus(provider: BetterRunTreeProvider, history: RunHistory): Promise<void> {
+  const running = provider.runningItems();
+  const last = history.entries()[0];
+
+  const items: StatusPickItem[] = [];
+  if (running.length) {
+    items.push({ label: "Running", kind: vscode.QuickPickItemKind.Separator });
+    for (const r of running) {
+      // Items contributed by other extensions can't be stopped from here
+      const stoppable = !("contributed" in r.item && r.item.contributed);
+      items.push({
+        label: `$(loading~spin) ${itemLabel(r.item)}`,
+        description: [r.instances > 1 ? `${r.instances} running` : undefined, r.item.workspaceFolder?.name].filter(Boolean).join(" · "),
+        buttons: stoppable ? [STOP_BUTTON, RESTART_BUTTON, OUTPUT_BUTTON] : [],
+        running: r.item,
+      });
+    }
+  }
+  if (last) {
+    items.push({ label: "Last run", kind: vscode.QuickPickItemKind.Separator });
+    items.push({
+      label: `$(history) ${last.label}`,
+      description: [last.kind === "task" ? undefined : last.mode, last.workspace, last.status].filter(Boolean).join(" · "),
+      buttons: last.kind === "task" ? [RERUN_BUTTON] : [RERUN_BUTTON, REDEBUG_BUTTON],
+      last,
+    });
+  }
+  if (!items.length) {
+    vscode.window.showInformationMessage("Nothing has been run yet.");
+    return;
+  }
+
+  const quickPick = vscode.window.createQuickPick<StatusPickItem>();
+  quickPick.title = "Better Run";
+  quickPick.placeholder = "Running items and the last run";
+  quickPick.items = items;
+
+  const chosen = await new Promise<{ item: StatusPickItem; button?: vscode.QuickInputButton } | undefined>((resolve) => {
+    quickPick.onDidAccept(() => {
+      const item = quickPick.selectedItems[0];
+      if (item) resolve({ item });
+    });
+    quickPick.onDidTriggerItemButton((e) => resolve({ item: e.item, button: e.button }));
+    quickPick.onDidHide(() => resolve(undefined));
+    quickPick.show();
+  });
+  quickPick.dispose();
+  if (!chosen) return;
+
+  const { item, button } = chosen;
+  if (item.running) {
+    // Services go through their compose actions: down, restart and logs
+    const command = isService(item.running)
+      ? button === STOP_BUTTON ? "betterRun.composeDown" : button === RESTART_BUTTON ? "betterRun.composeRestart" : "betterRun.composeLogs"
+      : button === STOP_BUTTON ? "betterRun.stopItem" : button === RESTART_BUTTON ? "betterRun.restartItem" : "betterRun.showItemOutput";
+    await vscode.commands.executeCommand(command, item.running);
+  } else if (item.last) {
+    const entry: HistoryEntry = button === REDEBUG_BUTTON ? { ...item.last, mode: "debug" } : item.last;
+    await vscode.commands.executeCommand("betterRun.rerunHistoryEntry", { entry });
+  }
+}
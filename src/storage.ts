@@ -1,24 +1,92 @@
 import * as vscode from "vscode";
+import type { HistoryEntry } from "./history";
+import type { LaunchVariant, OverrideHistory } from "./variants";
 
 const LAST_RUN_ID_KEY = "betterRun.lastRunId";
-const NAME_FILTER_KEY = "betterRun.nameFilter";
+const FILTER_KEY = "betterRun.filter";
+// Name filter of earlier versions, kept in global state
+const LEGACY_NAME_FILTER_KEY = "betterRun.nameFilter";
+const ATTACHED_VENVS_KEY = "betterRun.attachedVenvs";
+const RUN_HISTORY_KEY = "betterRun.runHistory";
+const PINNED_ITEMS_KEY = "betterRun.pinnedItems";
+const LAUNCH_VARIANTS_KEY = "betterRun.launchVariants";
+const OVERRIDE_HISTORY_KEY = "betterRun.overrideHistory";
 
 export class Storage {
-  constructor(private readonly context: vscode.ExtensionContext) {}
+  constructor(private readonly context: vscode.ExtensionContext) {
+    // Move the old global name filter into this workspace once, so it survives the upgrade
+    const legacyFilter = context.globalState.get<string>(LEGACY_NAME_FILTER_KEY);
+    if (legacyFilter !== undefined) {
+      if (context.workspaceState.get<string>(FILTER_KEY) === undefined) void context.workspaceState.update(FILTER_KEY, legacyFilter);
+      void context.globalState.update(LEGACY_NAME_FILTER_KEY, undefined);
+    }
+  }
 
+  // Run ids point into the run history, which is per workspace
   async setLastRunId(id: string): Promise<void> {
-    await this.context.globalState.update(LAST_RUN_ID_KEY, id);
+    await this.context.workspaceState.update(LAST_RUN_ID_KEY, id);
   }
 
   getLastRunId(): string | undefined {
-    return this.context.globalState.get<string>(LAST_RUN_ID_KEY);
+    return this.context.workspaceState.get<string>(LAST_RUN_ID_KEY);
+  }
+
+  // Filter query of the Runs view; per workspace, since it usually names folders, sources or categories
+  async setFilter(value: string): Promise<void> {
+    await this.context.workspaceState.update(FILTER_KEY, value);
+  }
+
+  getFilter(): string {
+    return this.context.workspaceState.get<string>(FILTER_KEY) ?? "";
+  }
+
+  // Venvs attached to generated items (e.g. Python project entry points), keyed by item id
+  async setAttachedVenv(itemId: string, venvPath: string | undefined): Promise<void> {
+    const venvs = { ...this.context.workspaceState.get<Record<string, string>>(ATTACHED_VENVS_KEY, {}) };
+    if (venvPath) venvs[itemId] = venvPath;
+    else delete venvs[itemId];
+    await this.context.workspaceState.update(ATTACHED_VENVS_KEY, venvs);
+  }
+
+  getAttachedVenv(itemId: string): string | undefined {
+    return this.context.workspaceState.get<Record<string, string>>(ATTACHED_VENVS_KEY, {})[itemId];
+  }
+
+  // Ids of pinned launches, compounds, tasks and notebooks, in pin order
+  async setPinnedItems(ids: string[]): Promise<void> {
+    await this.context.workspaceState.update(PINNED_ITEMS_KEY, ids);
+  }
+
+  getPinnedItems(): string[] {
+    return [...this.context.workspaceState.get<string[]>(PINNED_ITEMS_KEY, [])];
+  }
+
+  // Saved launch variants, in creation order
+  async setLaunchVariants(variants: LaunchVariant[]): Promise<void> {
+    await this.context.workspaceState.update(LAUNCH_VARIANTS_KEY, variants);
+  }
+
+  getLaunchVariants(): LaunchVariant[] {
+    return [...this.context.workspaceState.get<LaunchVariant[]>(LAUNCH_VARIANTS_KEY, [])];
+  }
+
+  // Args / env values entered in "Run with…", keyed by launch id
+  async setOverrideHistory(launchId: string, history: OverrideHistory): Promise<void> {
+    const all = { ...this.context.workspaceState.get<Record<string, OverrideHistory>>(OVERRIDE_HISTORY_KEY, {}) };
+    all[launchId] = history;
+    await this.context.workspaceState.update(OVERRIDE_HISTORY_KEY, all);
+  }
+
+  getOverrideHistory(launchId: string): OverrideHistory {
+    return this.context.workspaceState.get<Record<string, OverrideHistory>>(OVERRIDE_HISTORY_KEY, {})[launchId] ?? { args: [], env: [] };
   }
 
-  async setNameFilter(value: string): Promise<void> {
-    await this.context.globalState.update(NAME_FILTER_KEY, value);
+  // Run history, newest first
+  async setRunHistory(entries: HistoryEntry[]): Promise<void> {
+    await this.context.workspaceState.update(RUN_HISTORY_KEY, entries);
   }
 
-  getNameFilter(): string {
-    return this.context.globalState.get<string>(NAME_FILTER_KEY) ?? "";
+  getRunHistory(): HistoryEntry[] {
+    return [...this.context.workspaceState.get<HistoryEntry[]>(RUN_HISTORY_KEY, [])];
   }
 }
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { composeCommand, parseComposeServices } from "../compose";
+
+const COMPOSE_FILE = `
+name: shop
+
+services:
+  web:
+    image: "nginx:1.27" # pinned
+    container_name: shop-web
+    ports:
+      - "8080:80"
+    environment:
+      image: not-a-property-of-web
+  api:
+    build: ./api
+    profiles: [backend, "debug"]
+  'worker':
+    build:
+      context: ./worker
+
+volumes:
+  data:
+`;
+
+test("parseComposeServices lists the services with their line and properties", () => {
+  assert.deepEqual(parseComposeServices(COMPOSE_FILE), [
+    { name: "web", line: 4, image: "nginx:1.27", containerName: "shop-web" },
+    { name: "api", line: 11, build: true, profiles: ["backend", "debug"] },
+    { name: "worker", line: 14, build: true },
+  ]);
+});
+
+test("parseComposeServices ignores other top-level sections and comments", () => {
+  const services = parseComposeServices("# services:\nvolumes:\n  db:\nservices: # app\n  db:\n    image: postgres\n");
+  assert.deepEqual(services, [{ name: "db", line: 4, image: "postgres" }]);
+});
+
+test("parseComposeServices returns nothing without a services section", () => {
+  assert.deepEqual(parseComposeServices("version: '3'\nnetworks:\n  default:\n"), []);
+});
+
+test("composeCommand builds the command line for each action", () => {
+  const base = ["docker", "compose", "-f", "/ws/compose.yaml"];
+  assert.deepEqual(composeCommand("up", "/ws/compose.yaml", "web"), [...base, "up", "web"]);
+  assert.deepEqual(composeCommand("down", "/ws/compose.yaml", "web"), [...base, "rm", "--stop", "--force", "web"]);
+  assert.deepEqual(composeCommand("restart", "/ws/compose.yaml", "web"), [...base, "restart", "web"]);
+  assert.deepEqual(composeCommand("logs", "/ws/compose.yaml", "web"), [...base, "logs", "--follow", "--tail", "200", "web"]);
+});
@@ -1,12 +1,14 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { loadLaunchesAndTasks, LaunchItem, TaskItem, NotebookItem, SourceRef } from "./sources";
+import { loadLaunchesAndTasks, launchItemSubject, compoundItemSubject, taskItemSubject, LaunchItem, CompoundItem, TaskItem, NotebookItem, ServiceItem, SourceRef, ConfigProblem } from "./sources";
 import { Storage } from "./storage";
-
-// Helper to get output channel for debugging
-function getOutputChannel(): vscode.OutputChannel {
-  return vscode.window.createOutputChannel("Better Run");
-}
+import { RunSourceRegistry } from "./api";
+import { ConfigDiagnostics } from "./diagnostics";
+import { childCategories, isWithinCategory, normalizeCategory } from "./categories";
+import { HistoryEntry, RunHistory } from "./history";
+import { FilterSubject, ItemFilter, parseFilter } from "./filter";
+import { getOutputChannel } from "./output";
+import { LaunchVariant, describeOverrides, formatArgs, formatEnv, variantOverrides } from "./variants";
 
 type WorkspaceNode = {
   kind: "workspace";
@@ -15,28 +17,66 @@ type WorkspaceNode = {
   workspaceFolder?: vscode.WorkspaceFolder;
 };
 
+export type DependencyState = "running" | "succeeded" | "failed";
+
+// Outcome of the last run of a task Better Run executed itself
+export interface TaskResult {
+  // undefined when the process never started
+  exitCode?: number;
+  durationMs: number;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+type SectionName = "Launches" | "Tasks" | "Notebooks" | "Services";
+
 type Node =
   | WorkspaceNode
-  | { kind: "section"; workspaceKey: string; section: "Launches" | "Tasks" | "Notebooks" }
+  | { kind: "pinned" }
+  | { kind: "history" }
+  | { kind: "historyEntry"; entry: HistoryEntry }
+  | { kind: "section"; workspaceKey: string; section: SectionName }
   | { kind: "launchCategory"; workspaceKey: string; category: string }
   | { kind: "launchSource"; workspaceKey: string; sourceId: string; sourceLabel: string }
   | { kind: "launchTop"; item: LaunchItem }
   | { kind: "launch"; item: LaunchItem }
+  // Saved args/env overrides of a launch, listed under it
+  | { kind: "launchVariant"; item: LaunchItem; variant: LaunchVariant }
+  | { kind: "compound"; item: CompoundItem }
   | { kind: "taskCategory"; workspaceKey: string; category: string }
   | { kind: "taskTop"; item: TaskItem }
   | { kind: "task"; item: TaskItem }
-  | { kind: "notebook"; item: NotebookItem };
+  // Entry of a composite task's `dependsOn`; `ancestors` are the task ids above it (cycle detection)
+  | { kind: "taskDependency"; name: string; item?: TaskItem; ancestors: string[]; index: number; parent: TaskItem }
+  | { kind: "notebookFolder"; workspaceKey: string; folder: string }
+  | { kind: "notebook"; item: NotebookItem }
+  | { kind: "service"; item: ServiceItem };
 
 const USER_WORKSPACE_KEY = "ws::user";
+const WORKSPACE_FILE_KEY = "ws::workspaceFile";
 
 function workspaceKeyFromFolder(wf?: vscode.WorkspaceFolder): string {
   return wf ? `ws::${wf.uri.toString()}` : USER_WORKSPACE_KEY;
 }
 
+// Items from the `.code-workspace` file have no folder but get their own "Workspace" node
+function workspaceKeyFromSource(source: SourceRef, wf?: vscode.WorkspaceFolder): string {
+  return source.isWorkspaceFile ? WORKSPACE_FILE_KEY : workspaceKeyFromFolder(wf ?? source.workspaceFolder);
+}
+
 export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
   private readonly _onDidChangeTreeData = new vscode.EventEmitter<Node | undefined | null>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+  // Fires when a launch or task starts or stops running, or a task reports its result (status bar)
+  private readonly _onDidChangeRunState = new vscode.EventEmitter<void>();
+  readonly onDidChangeRunState = this._onDidChangeRunState.event;
+
   // Map to track TreeItems to their underlying Node data for double-click detection
   private treeItemToNode = new WeakMap<vscode.TreeItem, Node>();
 
@@ -63,6 +103,12 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
   // workspaceKey -> category -> sources[]
   private launchSourcesByWorkspaceCategory: Map<string, Map<string, SourceRef[]>> = new Map();
 
+  // workspaceKey -> top-level compounds (no category)
+  private topLevelCompoundsByWorkspace: Map<string, CompoundItem[]> = new Map();
+
+  // workspaceKey -> category -> compounds[]
+  private compoundsByWorkspaceCategory: Map<string, Map<string, CompoundItem[]>> = new Map();
+
   // workspaceKey -> categories[]
   private taskCategoriesByWorkspace: Map<string, string[]> = new Map();
 
@@ -75,23 +121,62 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
   // workspaceKey -> notebooks[]
   private notebooksByWorkspace: Map<string, NotebookItem[]> = new Map();
 
+  // workspaceKey -> compose services[]
+  private servicesByWorkspace: Map<string, ServiceItem[]> = new Map();
+
+  // workspaceKey -> section -> configuration problems (warning badge on the section)
+  private problemsByWorkspaceSection: Map<string, Map<SectionName, ConfigProblem[]>> = new Map();
+
   // Track running launches and tasks for loading state
-  private runningLaunches: Set<string> = new Set(); // launch id
+  private runningLaunches: Map<string, number> = new Map(); // launch id -> running instances
   private runningTasks: Set<string> = new Set(); // task id
 
+  // Most recent result of a betterRun.userTasks task, for the status bar
+  private lastUserTaskResult: { taskId: string; result: TaskResult } | undefined;
+
+  // Every loaded launch, compound and task by id (history entries refer to items by id)
+  private itemsById: Map<string, LaunchItem | CompoundItem | TaskItem> = new Map();
+  private notebooksById: Map<string, NotebookItem> = new Map();
+  // Compose services share runningTasks with tasks (`up` runs attached)
+  private servicesById: Map<string, ServiceItem> = new Map();
+
+  // Last run result per task id (user settings and other Better Run-built tasks)
+  private taskResults: Map<string, TaskResult> = new Map();
+
+  // Progress of dependencies while a composite task runs: task id -> state
+  private dependencyStates: Map<string, DependencyState> = new Map();
+
+  // Fingerprint of the last loaded data, used to skip redundant re-renders
+  private lastSignature: string | undefined;
+
   private readonly extensionPath: string;
 
-  constructor(private readonly storage: Storage, extensionContext: vscode.ExtensionContext) {
+  constructor(
+    private readonly storage: Storage,
+    extensionContext: vscode.ExtensionContext,
+    private readonly registry: RunSourceRegistry,
+    private readonly diagnostics: ConfigDiagnostics,
+    private readonly history: RunHistory
+  ) {
     this.extensionPath = extensionContext.extensionPath;
   }
 
+  // Each call with `running` adds an instance (a launch can run several times at once), each call without removes one
   setLaunchRunning(launchId: string, running: boolean): void {
-    if (running) {
-      this.runningLaunches.add(launchId);
+    const instances = (this.runningLaunches.get(launchId) ?? 0) + (running ? 1 : -1);
+    if (instances > 0) {
+      this.runningLaunches.set(launchId, instances);
     } else {
       this.runningLaunches.delete(launchId);
     }
     this._onDidChangeTreeData.fire(undefined);
+    this._onDidChangeRunState.fire();
+  }
+
+  // "2 running" once more than one instance runs
+  private instancesDescription(launchId: string): string | undefined {
+    const instances = this.runningLaunches.get(launchId) ?? 0;
+    return instances > 1 ? `${instances} running` : undefined;
   }
 
   setTaskRunning(taskId: string, running: boolean): void {
@@ -101,38 +186,268 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       this.runningTasks.delete(taskId);
     }
     this._onDidChangeTreeData.fire(undefined);
+    this._onDidChangeRunState.fire();
   }
 
-  private getFilterLower(): string {
-    return this.storage.getNameFilter().trim().toLowerCase();
+  // Running launches, compounds, tasks and compose services with their number of running instances
+  runningItems(): { item: LaunchItem | CompoundItem | TaskItem | ServiceItem; instances: number }[] {
+    const out: { item: LaunchItem | CompoundItem | TaskItem | ServiceItem; instances: number }[] = [];
+    for (const [id, instances] of this.runningLaunches.entries()) {
+      const item = this.itemsById.get(id);
+      if (item) out.push({ item, instances });
+    }
+    for (const id of this.runningTasks) {
+      const item = this.itemsById.get(id) ?? this.servicesById.get(id);
+      if (item) out.push({ item, instances: 1 });
+    }
+    return out;
   }
 
-  private workspaceHasMatches(workspaceKey: string, filterLower: string): boolean {
-    if (!filterLower) return true;
+  getLastUserTaskResult(): { taskId: string; result: TaskResult } | undefined {
+    return this.lastUserTaskResult;
+  }
 
-    const hasLaunchMatch = this.workspaceHasLaunchMatches(workspaceKey, filterLower);
+  // Current item for an id, if it still exists after the last refresh
+  findItem(id: string): LaunchItem | CompoundItem | TaskItem | undefined {
+    return this.itemsById.get(id);
+  }
+
+  isPinned(itemId: string): boolean {
+    return this.storage.getPinnedItems().includes(itemId);
+  }
+
+  // Pins are stored by item id, so they follow an item when its category changes
+  async setPinned(itemId: string, pinned: boolean): Promise<void> {
+    const ids = this.storage.getPinnedItems().filter((id: string) => id !== itemId);
+    if (pinned) ids.push(itemId);
+    await this.storage.setPinnedItems(ids);
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  // Variants are read from storage on every render, like pins
+  variantsOf(launchId: string): LaunchVariant[] {
+    return this.storage.getLaunchVariants().filter((v: LaunchVariant) => v.launchId === launchId);
+  }
+
+  // Adds the variant, or replaces the one with the same id
+  async saveVariant(variant: LaunchVariant): Promise<void> {
+    const variants = this.storage.getLaunchVariants();
+    const index = variants.findIndex((v: LaunchVariant) => v.id === variant.id);
+    if (index < 0) variants.push(variant);
+    else variants[index] = variant;
+    await this.storage.setLaunchVariants(variants);
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  async deleteVariant(variantId: string): Promise<void> {
+    await this.storage.setLaunchVariants(this.storage.getLaunchVariants().filter((v: LaunchVariant) => v.id !== variantId));
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  private launchCollapsibleState(item: LaunchItem): vscode.TreeItemCollapsibleState {
+    return this.variantsOf(item.id).length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+  }
+
+  // History entries are read from storage on every render; just re-ask for the roots
+  historyChanged(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  setTaskResult(taskId: string, result: TaskResult): void {
+    this.taskResults.set(taskId, result);
+    // Nested package tasks and dependencies run as Better Run tasks too, but don't count here
+    const item = this.findItem(taskId);
+    if (item && "userTask" in item && item.userTask) this.lastUserTaskResult = { taskId, result };
+    this._onDidChangeTreeData.fire(undefined);
+    this._onDidChangeRunState.fire();
+  }
+
+  // Icon for an idle task: pass/error after a recorded run, else the plain task icon
+  private taskIcon(taskId: string): vscode.ThemeIcon {
+    const result = this.taskResults.get(taskId);
+    if (!result) return new vscode.ThemeIcon("symbol-method");
+    return result.exitCode === 0
+      ? new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"))
+      : new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+  }
+
+  private taskResultTooltip(taskId: string): string | undefined {
+    const result = this.taskResults.get(taskId);
+    if (!result) return undefined;
+    const outcome = result.exitCode === undefined ? "did not start" : `exit code ${result.exitCode}`;
+    return `Last run: ${outcome} after ${formatDuration(result.durationMs)}`;
+  }
+
+  setDependencyState(taskId: string, state: DependencyState | undefined): void {
+    if (state) {
+      this.dependencyStates.set(taskId, state);
+    } else {
+      this.dependencyStates.delete(taskId);
+    }
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  // Composite tasks expand into their dependencies
+  private taskCollapsibleState(item: TaskItem): vscode.TreeItemCollapsibleState {
+    return item.dependencies?.length || item.missingDependencies?.length
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.None;
+  }
+
+  private dependencyTooltip(item: TaskItem): string | undefined {
+    if (!item.dependsOn?.length) return undefined;
+    return `Depends on${item.dependsOrder === "sequence" ? " (in sequence)" : ""}: ${item.dependsOn.join(", ")}`;
+  }
+
+  private dependencyNodes(parent: TaskItem, ancestors: string[]): Node[] {
+    const resolved: Node[] = (parent.dependencies ?? []).map((dep: TaskItem, index: number) => ({
+      kind: "taskDependency",
+      name: dep.label,
+      item: dep,
+      ancestors,
+      index,
+      parent,
+    }));
+    const missing: Node[] = (parent.missingDependencies ?? []).map((name: string, index: number) => ({
+      kind: "taskDependency",
+      name,
+      ancestors,
+      index: resolved.length + index,
+      parent,
+    }));
+    return [...resolved, ...missing];
+  }
+
+  // "betterRun.launch" -> "betterRun.launch.running.pinned", so menus can offer Stop/Restart for running
+  // items and Unpin instead of Pin. Items from other extensions can't be stopped from here.
+  private itemContextValue(base: string, item: { id: string; contributed?: unknown }, running = false): string {
+    return base + (running && !item.contributed ? ".running" : "") + (this.isPinned(item.id) ? ".pinned" : "");
+  }
+
+  // Pinned items that currently exist, in pin order; pins of items that went away are kept for when they return
+  private pinnedNodes(filter: ItemFilter | undefined): Node[] {
+    const out: Node[] = [];
+    for (const id of this.storage.getPinnedItems()) {
+      const notebook = this.notebooksById.get(id);
+      const item = this.itemsById.get(id);
+
+      if (notebook) {
+        if (this.notebookMatches(notebook, filter)) out.push({ kind: "notebook", item: notebook });
+      } else if (item && "members" in item) {
+        if (this.compoundMatches(item, filter)) out.push({ kind: "compound", item });
+      } else if (item && "config" in item) {
+        if (this.launchMatches(item, filter)) out.push({ kind: "launchTop", item });
+      } else if (item) {
+        if (this.taskMatches(item as TaskItem, filter)) out.push({ kind: "taskTop", item: item as TaskItem });
+      }
+    }
+    return out;
+  }
+
+  private historyEntries(filter: ItemFilter | undefined): HistoryEntry[] {
+    const entries = this.history.entries();
+    if (!filter) return entries;
+    return entries.filter((e: HistoryEntry) =>
+      filter.matches({ label: e.label, type: e.kind, workspace: e.workspace ?? this.workspaceName(USER_WORKSPACE_KEY) })
+    );
+  }
+
+  private getFilter(): ItemFilter | undefined {
+    return parseFilter(this.storage.getFilter());
+  }
+
+  // Name of the workspace node an item is listed under
+  private workspaceName(workspaceKey: string): string | undefined {
+    return this.workspaces.find((ws: WorkspaceNode) => ws.key === workspaceKey)?.name;
+  }
+
+  private itemMatches(
+    filter: ItemFilter | undefined,
+    subject: FilterSubject,
+    item: { category?: string; source: SourceRef; workspaceFolder?: vscode.WorkspaceFolder }
+  ): boolean {
+    if (!filter) return true;
+    return filter.matches({
+      ...subject,
+      category: normalizeCategory(item.category),
+      workspace: this.workspaceName(workspaceKeyFromSource(item.source, item.workspaceFolder)),
+      sourceLabel: item.source.label,
+    });
+  }
+
+  private launchMatches(item: LaunchItem, filter: ItemFilter | undefined): boolean {
+    return this.itemMatches(filter, launchItemSubject(item), item);
+  }
+
+  private compoundMatches(item: CompoundItem, filter: ItemFilter | undefined): boolean {
+    return this.itemMatches(filter, compoundItemSubject(item), item);
+  }
+
+  private taskMatches(item: TaskItem, filter: ItemFilter | undefined): boolean {
+    return this.itemMatches(filter, taskItemSubject(item), item);
+  }
+
+  private notebookMatches(item: NotebookItem, filter: ItemFilter | undefined): boolean {
+    if (!filter) return true;
+    return filter.matches({
+      label: item.name,
+      type: "notebook",
+      category: item.folder,
+      workspace: item.isLocal ? this.workspaceName(USER_WORKSPACE_KEY) : item.workspaceFolder?.name,
+      source: vscode.workspace.asRelativePath(item.uri),
+      sourceLabel: "Notebooks",
+    });
+  }
+
+  private serviceMatches(item: ServiceItem, filter: ItemFilter | undefined): boolean {
+    if (!filter) return true;
+    return filter.matches({
+      label: item.name,
+      type: "service",
+      command: item.image,
+      workspace: item.workspaceFolder.name,
+      source: vscode.workspace.asRelativePath(item.composeFile),
+      sourceLabel: item.source.label,
+    });
+  }
+
+  private workspaceHasMatches(workspaceKey: string, filter: ItemFilter | undefined): boolean {
+    if (!filter) return true;
+
+    const hasLaunchMatch = this.workspaceHasLaunchMatches(workspaceKey, filter);
 
     const catTasks: Map<string, Map<string, TaskItem[]>> =
       this.tasksByWorkspaceCategorySource.get(workspaceKey) ?? new Map<string, Map<string, TaskItem[]>>();
 
     const hasTaskMatch = Array.from(catTasks.values()).some((srcMap: Map<string, TaskItem[]>) =>
       Array.from(srcMap.values()).some((arr: TaskItem[]) =>
-        arr.some((t: TaskItem) => t.label.toLowerCase().includes(filterLower))
+        arr.some((t: TaskItem) => this.taskMatches(t, filter))
       )
     );
 
     const notebooks = this.notebooksByWorkspace.get(workspaceKey) ?? [];
-    const hasNotebookMatch = notebooks.some((n: NotebookItem) => n.name.toLowerCase().includes(filterLower));
+    const hasNotebookMatch = notebooks.some((n: NotebookItem) => this.notebookMatches(n, filter));
 
-    return hasLaunchMatch || hasTaskMatch || hasNotebookMatch;
+    const services = this.servicesByWorkspace.get(workspaceKey) ?? [];
+    const hasServiceMatch = services.some((svc: ServiceItem) => this.serviceMatches(svc, filter));
+
+    return hasLaunchMatch || hasTaskMatch || hasNotebookMatch || hasServiceMatch;
   }
 
-  private workspaceHasLaunchMatches(workspaceKey: string, filterLower: string): boolean {
-    if (!filterLower) return true;
+  private workspaceHasLaunchMatches(workspaceKey: string, filter: ItemFilter | undefined): boolean {
+    if (!filter) return true;
 
     // Check top-level launches
     const topLaunches = this.topLevelLaunchesByWorkspace.get(workspaceKey) ?? [];
-    if (topLaunches.some((i: LaunchItem) => i.name.toLowerCase().includes(filterLower))) {
+    if (topLaunches.some((i: LaunchItem) => this.launchMatches(i, filter))) {
+      return true;
+    }
+
+    // Check compounds (top-level and categorized)
+    const topCompounds = this.topLevelCompoundsByWorkspace.get(workspaceKey) ?? [];
+    const catCompounds = this.compoundsByWorkspaceCategory.get(workspaceKey) ?? new Map<string, CompoundItem[]>();
+    const allCompounds = topCompounds.concat(...Array.from(catCompounds.values()));
+    if (allCompounds.some((c: CompoundItem) => this.compoundMatches(c, filter))) {
       return true;
     }
 
@@ -142,26 +457,92 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
 
     return Array.from(catLaunches.values()).some((srcMap: Map<string, LaunchItem[]>) =>
       Array.from(srcMap.values()).some((arr: LaunchItem[]) =>
-        arr.some((i: LaunchItem) => i.name.toLowerCase().includes(filterLower))
+        arr.some((i: LaunchItem) => this.launchMatches(i, filter))
       )
     );
   }
 
-  private workspaceHasTaskMatches(workspaceKey: string, filterLower: string): boolean {
-    if (!filterLower) return true;
+  // Category paths nest ("Backend/DB"): a folder matches when anything below it does
+  private launchCategoryHasMatches(workspaceKey: string, category: string, filter: ItemFilter | undefined): boolean {
+    const catLaunches = this.launchesByWorkspaceCategorySource.get(workspaceKey) ?? new Map<string, Map<string, LaunchItem[]>>();
+    const catCompounds = this.compoundsByWorkspaceCategory.get(workspaceKey) ?? new Map<string, CompoundItem[]>();
+
+    for (const [cat, srcMap] of catLaunches.entries()) {
+      if (!isWithinCategory(cat, category)) continue;
+      for (const arr of srcMap.values()) {
+        if (arr.some((i: LaunchItem) => this.launchMatches(i, filter))) return true;
+      }
+    }
+    for (const [cat, arr] of catCompounds.entries()) {
+      if (isWithinCategory(cat, category) && arr.some((c: CompoundItem) => this.compoundMatches(c, filter))) return true;
+    }
+    return false;
+  }
+
+  private taskCategoryHasMatches(workspaceKey: string, category: string, filter: ItemFilter | undefined): boolean {
+    const catTasks = this.tasksByWorkspaceCategorySource.get(workspaceKey) ?? new Map<string, Map<string, TaskItem[]>>();
+
+    for (const [cat, srcMap] of catTasks.entries()) {
+      if (!isWithinCategory(cat, category)) continue;
+      for (const arr of srcMap.values()) {
+        if (arr.some((t: TaskItem) => this.taskMatches(t, filter))) return true;
+      }
+    }
+    return false;
+  }
+
+  private workspaceHasTaskMatches(workspaceKey: string, filter: ItemFilter | undefined): boolean {
+    if (!filter) return true;
 
     const catTasks: Map<string, Map<string, TaskItem[]>> =
       this.tasksByWorkspaceCategorySource.get(workspaceKey) ?? new Map<string, Map<string, TaskItem[]>>();
 
     return Array.from(catTasks.values()).some((srcMap: Map<string, TaskItem[]>) =>
       Array.from(srcMap.values()).some((arr: TaskItem[]) =>
-        arr.some((t: TaskItem) => t.label.toLowerCase().includes(filterLower))
+        arr.some((t: TaskItem) => this.taskMatches(t, filter))
       )
     );
   }
 
-  async refresh(): Promise<void> {
-    const { launchSources, launches, taskSources, tasks, notebooks } = await loadLaunchesAndTasks();
+  /**
+   * Reload all sources and rebuild the tree.
+   * With `onlyIfChanged`, the view is left untouched when the loaded data is identical
+   * (used by the file watchers, so saving launch.json doesn't flicker the whole tree).
+   */
+  async refresh(onlyIfChanged = false): Promise<void> {
+    const { launchSources, launches, compounds, taskSources, tasks, notebooks, services, problems } = await loadLaunchesAndTasks();
+
+    // Merge items registered by other extensions into the same hierarchy
+    const contributed = await this.registry.load();
+    launchSources.push(...contributed.launchSources);
+    launches.push(...contributed.launches);
+    taskSources.push(...contributed.taskSources);
+    tasks.push(...contributed.tasks);
+
+    const signature = JSON.stringify({
+      launchSources: launchSources.map((s) => s.id),
+      launches: launches.map((l) => [l.id, l.category, l.config]),
+      contributed: [...launches, ...tasks].map((i) => i.contributed?.item),
+      // Task definitions matter for nested package tasks, which are executed from them
+      definitions: tasks.map((t) => t.definition),
+      compounds: compounds.map((c) => [c.id, c.category, c.stopAll, c.members.map((m) => m.id), c.missingMembers]),
+      taskSources: taskSources.map((s) => s.id),
+      tasks: tasks.map((t) => [t.id, t.category, t.description, t.line, t.userTask, t.detectedTask?.definition, t.dependsOn, t.dependsOrder]),
+      notebooks: notebooks.map((n) => [n.id, n.folder]),
+      services: services.map((svc) => [svc.id, svc.image, svc.build, svc.line]),
+      problems: problems.map((p) => [p.uri?.toString(), p.message, p.jsonPath, p.offset]),
+      workspaces: (vscode.workspace.workspaceFolders ?? []).map((wf) => [wf.uri.toString(), wf.name]),
+    });
+    if (onlyIfChanged && signature === this.lastSignature) return;
+    this.lastSignature = signature;
+
+    this.itemsById = new Map<string, LaunchItem | CompoundItem | TaskItem>();
+    for (const item of [...launches, ...compounds, ...tasks]) this.itemsById.set(item.id, item);
+    this.notebooksById = new Map(notebooks.map((nb: NotebookItem): [string, NotebookItem] => [nb.id, nb]));
+    this.servicesById = new Map(services.map((svc: ServiceItem): [string, ServiceItem] => [svc.id, svc]));
+
+    await this.diagnostics.update(problems);
+    this.organizeProblems(problems, [...launchSources, ...taskSources]);
 
     // Workspaces (plus optional User)
     const ws: WorkspaceNode[] = (vscode.workspace.workspaceFolders ?? []).map((wf) => ({
@@ -171,8 +552,13 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       workspaceFolder: wf,
     }));
 
-    const hasUser = launchSources.some((s) => !s.workspaceFolder) || taskSources.some((s) => !s.workspaceFolder) || notebooks.some((n) => n.isLocal);
+    const isUserSource = (s: SourceRef) => !s.workspaceFolder && !s.isWorkspaceFile;
+    const hasUser = launchSources.some(isUserSource) || taskSources.some(isUserSource) || notebooks.some((n) => n.isLocal);
+    const hasWorkspaceFile = launchSources.some((s) => s.isWorkspaceFile) || taskSources.some((s) => s.isWorkspaceFile);
     this.workspaces = [...ws];
+    if (hasWorkspaceFile) {
+      this.workspaces.push({ kind: "workspace", key: WORKSPACE_FILE_KEY, name: "Workspace" });
+    }
     if (hasUser) {
       this.workspaces.push({ kind: "workspace", key: USER_WORKSPACE_KEY, name: "Local" });
     }
@@ -191,8 +577,17 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       this.notebooksByWorkspace.set(wk, arr);
     }
     
+    // Compose services by workspace folder (already sorted by name)
+    this.servicesByWorkspace.clear();
+    for (const svc of services) {
+      const wk = workspaceKeyFromFolder(svc.workspaceFolder);
+      const arr = this.servicesByWorkspace.get(wk) ?? [];
+      arr.push(svc);
+      this.servicesByWorkspace.set(wk, arr);
+    }
+
     // Debug: log notebook organization
-    const outputChannel = vscode.window.createOutputChannel("Better Run");
+    const outputChannel = getOutputChannel();
     for (const [wk, arr] of this.notebooksByWorkspace.entries()) {
       outputChannel.appendLine(`Better Run: Workspace ${wk} has ${arr.length} notebooks`);
     }
@@ -204,21 +599,23 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
     this.launchCategoriesByWorkspace.clear();
     this.launchesByWorkspaceCategorySource.clear();
     this.launchSourcesByWorkspaceCategory.clear();
+    this.topLevelCompoundsByWorkspace.clear();
+    this.compoundsByWorkspaceCategory.clear();
 
     const launchCatsByWk: Map<string, Set<string>> = new Map();
     const launchSourcesByWkCat: Map<string, Map<string, Map<string, SourceRef>>> = new Map();
     const launchesByWkCatSource: Map<string, Map<string, Map<string, LaunchItem[]>>> = new Map();
 
     for (const source of launchSources) {
-      const wk = workspaceKeyFromFolder(source.workspaceFolder);
+      const wk = workspaceKeyFromSource(source);
       const list: SourceRef[] = this.launchSourcesByWorkspace.get(wk) ?? [];
       list.push(source);
       this.launchSourcesByWorkspace.set(wk, list);
     }
 
     for (const l of launches) {
-      const wk = workspaceKeyFromFolder(l.workspaceFolder);
-      const category = (l.category && l.category.trim()) ? l.category.trim() : undefined;
+      const wk = workspaceKeyFromSource(l.source, l.workspaceFolder);
+      const category = normalizeCategory(l.category);
 
       if (!category) {
         // Top-level launch (no category)
@@ -245,6 +642,27 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       srcLaunches.get(l.source.id)!.push(l);
     }
 
+    // Compounds live alongside launches: top-level or in a launch category
+    for (const c of compounds) {
+      const wk = workspaceKeyFromSource(c.source, c.workspaceFolder);
+      const category = normalizeCategory(c.category);
+
+      if (!category) {
+        const arr = this.topLevelCompoundsByWorkspace.get(wk) ?? [];
+        arr.push(c);
+        this.topLevelCompoundsByWorkspace.set(wk, arr);
+        continue;
+      }
+
+      if (!launchCatsByWk.has(wk)) launchCatsByWk.set(wk, new Set<string>());
+      launchCatsByWk.get(wk)!.add(category);
+
+      if (!this.compoundsByWorkspaceCategory.has(wk)) this.compoundsByWorkspaceCategory.set(wk, new Map<string, CompoundItem[]>());
+      const catCompounds = this.compoundsByWorkspaceCategory.get(wk)!;
+      if (!catCompounds.has(category)) catCompounds.set(category, []);
+      catCompounds.get(category)!.push(c);
+    }
+
     // Sort top-level launches
     for (const [wk, arr] of this.topLevelLaunchesByWorkspace.entries()) {
       arr.sort((a, b) => a.name.localeCompare(b.name));
@@ -289,8 +707,8 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
     this.topLevelTasksByWorkspace.clear();
 
     for (const t of tasks) {
-      const wk = workspaceKeyFromFolder(t.workspaceFolder);
-      const category = (t.category && t.category.trim()) ? t.category.trim() : undefined;
+      const wk = workspaceKeyFromSource(t.source, t.workspaceFolder);
+      const category = normalizeCategory(t.category);
 
       if (!category) {
         const arr = this.topLevelTasksByWorkspace.get(wk) ?? [];
@@ -346,35 +764,130 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
     this._onDidChangeTreeData.fire(undefined);
   }
 
+  // Place each problem on the section of its source; parse errors that left no source
+  // fall back to the workspace folder of the file and its file name
+  private organizeProblems(problems: ConfigProblem[], sources: SourceRef[]): void {
+    this.problemsByWorkspaceSection.clear();
+    const sourceById = new Map(sources.map((s) => [s.id, s] as [string, SourceRef]));
+    const sourceByUri = new Map(sources.filter((s) => s.uri).map((s) => [s.uri!.toString(), s] as [string, SourceRef]));
+
+    for (const problem of problems) {
+      const source = (problem.sourceId ? sourceById.get(problem.sourceId) : undefined) ??
+        (problem.uri ? sourceByUri.get(problem.uri.toString()) : undefined);
+
+      let wk: string | undefined;
+      let section: SectionName;
+      if (source) {
+        wk = workspaceKeyFromSource(source);
+        section = source.kind === "tasks" ? "Tasks" : "Launches";
+      } else if (problem.uri) {
+        const wf = vscode.workspace.getWorkspaceFolder(problem.uri);
+        wk = wf ? workspaceKeyFromFolder(wf) : undefined;
+        const fileName = path.basename(problem.uri.path);
+        section = fileName === "tasks.json" ? "Tasks" : fileName === "notebooks.json" ? "Notebooks" : "Launches";
+      } else {
+        continue;
+      }
+      if (!wk) continue;
+
+      if (!this.problemsByWorkspaceSection.has(wk)) this.problemsByWorkspaceSection.set(wk, new Map());
+      const bySection = this.problemsByWorkspaceSection.get(wk)!;
+      bySection.set(section, [...(bySection.get(section) ?? []), problem]);
+    }
+  }
+
   getTreeItem(element: Node): vscode.TreeItem {
     switch (element.kind) {
       case "workspace": {
         // Start collapsed
         const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.Collapsed);
         item.contextValue = "betterRun.workspace";
-        item.iconPath = new vscode.ThemeIcon("root-folder");
+        item.iconPath = new vscode.ThemeIcon(element.key === WORKSPACE_FILE_KEY ? "multiple-windows" : "root-folder");
         item.tooltip = undefined;
         this.treeItemToNode.set(item, element);
         return item;
       }
 
+      case "pinned": {
+        const item = new vscode.TreeItem("Pinned", vscode.TreeItemCollapsibleState.Expanded);
+        item.contextValue = "betterRun.pinned";
+        item.iconPath = new vscode.ThemeIcon("pinned");
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "history": {
+        const item = new vscode.TreeItem("History", vscode.TreeItemCollapsibleState.Collapsed);
+        item.contextValue = "betterRun.history";
+        item.iconPath = new vscode.ThemeIcon("history");
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "historyEntry": {
+        const entry = element.entry;
+        const item = new vscode.TreeItem(entry.label, vscode.TreeItemCollapsibleState.None);
+        // Entries whose item no longer exists can't be re-run
+        item.contextValue = this.itemsById.has(entry.itemId) ? "betterRun.historyEntry" : "betterRun.historyEntry.missing";
+
+        const statusIcons: Record<string, vscode.ThemeIcon> = {
+          running: new vscode.ThemeIcon("loading~spin"),
+          succeeded: new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed")),
+          failed: new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed")),
+          ended: new vscode.ThemeIcon(entry.mode === "debug" ? "debug-alt" : "circle-outline"),
+        };
+        item.iconPath = statusIcons[entry.status];
+
+        const started = new Date(entry.startedAt);
+        const duration = entry.endedAt !== undefined ? formatDuration(entry.endedAt - entry.startedAt) : undefined;
+        item.description = [
+          entry.kind === "task" ? undefined : entry.mode,
+          entry.workspace,
+          started.toLocaleTimeString(),
+          duration,
+        ].filter(Boolean).join(" · ");
+
+        item.command = { command: "betterRun.noop", title: "", arguments: [] };
+        item.tooltip = [
+          `${entry.label} (${entry.kind === "task" ? "task" : `${entry.kind}, ${entry.mode}`})`,
+          entry.workspace ? `Workspace: ${entry.workspace}` : undefined,
+          `Started: ${started.toLocaleString()}`,
+          duration ? `Duration: ${duration}` : undefined,
+          `Status: ${entry.status}${entry.exitCode !== undefined ? ` (exit code ${entry.exitCode})` : ""}`,
+          item.contextValue === "betterRun.historyEntry" ? "Double-click to run again" : "This item no longer exists",
+        ].filter(Boolean).join("\n");
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
       case "section": {
         // Start collapsed
         const item = new vscode.TreeItem(element.section, vscode.TreeItemCollapsibleState.Collapsed);
-        item.contextValue = element.section === "Launches" ? "betterRun.section.launches" : "betterRun.section.tasks";
-        item.iconPath = new vscode.ThemeIcon(element.section === "Launches" ? "debug" : "checklist");
-        const raw = this.storage.getNameFilter().trim();
+        item.contextValue = `betterRun.section.${element.section.toLowerCase()}`;
+        const sectionIcons: Record<string, string> = { Launches: "debug", Tasks: "checklist", Notebooks: "notebook", Services: "server-environment" };
+        item.iconPath = new vscode.ThemeIcon(sectionIcons[element.section]);
+        const raw = this.storage.getFilter().trim();
         item.description = raw ? `filter: ${raw}` : undefined;
         item.tooltip = undefined;
+
+        const problems = this.problemsByWorkspaceSection.get(element.workspaceKey)?.get(element.section) ?? [];
+        if (problems.length) {
+          item.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+          const badge = `${problems.length} problem${problems.length === 1 ? "" : "s"}`;
+          item.description = raw ? `${badge} · filter: ${raw}` : badge;
+          item.tooltip = [...problems.map((p) => `• ${p.message}`), "See the Problems panel for details"].join("\n");
+        }
         this.treeItemToNode.set(item, element);
         return item;
       }
 
       case "launchCategory": {
-        const item = new vscode.TreeItem(element.category, vscode.TreeItemCollapsibleState.Collapsed);
+        // Nested categories show their last segment; the full path is in the tooltip
+        const label = element.category.split("/").pop() ?? element.category;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
         item.contextValue = "betterRun.launchCategory";
         item.iconPath = new vscode.ThemeIcon("folder");
-        item.tooltip = undefined;
+        item.tooltip = element.category;
         this.treeItemToNode.set(item, element);
         return item;
       }
@@ -389,81 +902,197 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       }
 
       case "launchTop": {
-        const item = new vscode.TreeItem(element.item.name, vscode.TreeItemCollapsibleState.None);
-        item.contextValue = "betterRun.launch";
+        const item = new vscode.TreeItem(element.item.name, this.launchCollapsibleState(element.item));
         const isRunning = this.runningLaunches.has(element.item.id);
+        item.contextValue = this.itemContextValue("betterRun.launch", element.item, isRunning);
+        const instances = this.instancesDescription(element.item.id);
+        item.description = [
+          instances,
+          element.item.contributed?.item.description ?? element.item.source.packagePath,
+        ].filter(Boolean).join(" · ") || undefined;
         item.iconPath = isRunning 
           ? new vscode.ThemeIcon("loading~spin")
           : new vscode.ThemeIcon("zap", new vscode.ThemeColor("charts.yellow"));
         // Set no-op command to prevent default click behavior, double-click will trigger execution
         item.command = { command: "betterRun.noop", title: "", arguments: [] };
         item.tooltip = isRunning 
-          ? `Debugging: ${element.item.name}` 
-          : `${element.item.name}\nDouble-click to run, right-click for Debug/Run options`;
+          ? `Debugging: ${element.item.name}${instances ? ` (${instances})` : ""}` 
+          : element.item.contributed?.item.tooltip ?? `${element.item.name}\nDouble-click to run, right-click for Debug/Run options`;
         this.treeItemToNode.set(item, element);
         return item;
       }
 
       case "launch": {
-        const item = new vscode.TreeItem(element.item.name, vscode.TreeItemCollapsibleState.None);
-        item.contextValue = "betterRun.launch";
+        const item = new vscode.TreeItem(element.item.name, this.launchCollapsibleState(element.item));
         const isRunning = this.runningLaunches.has(element.item.id);
+        item.contextValue = this.itemContextValue("betterRun.launch", element.item, isRunning);
+        const instances = this.instancesDescription(element.item.id);
+        item.description = [
+          instances,
+          element.item.contributed?.item.description ?? element.item.source.packagePath,
+        ].filter(Boolean).join(" · ") || undefined;
         item.iconPath = isRunning 
           ? new vscode.ThemeIcon("loading~spin")
           : new vscode.ThemeIcon("zap", new vscode.ThemeColor("charts.yellow"));
         // Set no-op command to prevent default click behavior, double-click will trigger execution
         item.command = { command: "betterRun.noop", title: "", arguments: [] };
         item.tooltip = isRunning 
-          ? `Debugging: ${element.item.name}` 
-          : `${element.item.name}\nDouble-click to run, right-click for Debug/Run options`;
+          ? `Debugging: ${element.item.name}${instances ? ` (${instances})` : ""}` 
+          : element.item.contributed?.item.tooltip ?? `${element.item.name}\nDouble-click to run, right-click for Debug/Run options`;
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "launchVariant": {
+        const variant = element.variant;
+        const item = new vscode.TreeItem(variant.name, vscode.TreeItemCollapsibleState.None);
+        item.contextValue = "betterRun.launchVariant";
+        item.iconPath = new vscode.ThemeIcon("symbol-variable", new vscode.ThemeColor("charts.yellow"));
+        item.description = describeOverrides(variantOverrides(variant)) || undefined;
+        // Set no-op command to prevent default click behavior, double-click will trigger execution
+        item.command = { command: "betterRun.noop", title: "", arguments: [] };
+        item.tooltip = [
+          `${variant.name} (variant of ${element.item.name})`,
+          variant.args ? `Args: ${formatArgs(variant.args)}` : undefined,
+          variant.env ? `Env: ${formatEnv(variant.env)}` : undefined,
+          "Double-click to run, right-click for Debug/Edit options",
+        ].filter(Boolean).join("\n");
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "compound": {
+        const item = new vscode.TreeItem(element.item.name, vscode.TreeItemCollapsibleState.None);
+        const isRunning = this.runningLaunches.has(element.item.id);
+        item.contextValue = this.itemContextValue("betterRun.compound", element.item, isRunning);
+        item.iconPath = isRunning
+          ? new vscode.ThemeIcon("loading~spin")
+          : new vscode.ThemeIcon("layers", new vscode.ThemeColor("charts.yellow"));
+        item.description = [this.instancesDescription(element.item.id), `${element.item.members.length} launches`].filter(Boolean).join(" · ");
+        // Set no-op command to prevent default click behavior, double-click will trigger execution
+        item.command = { command: "betterRun.noop", title: "", arguments: [] };
+        const memberLines = element.item.members.map((m: LaunchItem) => `  • ${m.name}`);
+        const missingLines = element.item.missingMembers.map((n: string) => `  • ${n} (not found)`);
+        item.tooltip = isRunning
+          ? `Running compound: ${element.item.name}`
+          : [`${element.item.name} (compound)`, ...memberLines, ...missingLines, "Double-click to run, right-click for Debug/Run options"].join("\n");
         this.treeItemToNode.set(item, element);
         return item;
       }
 
       case "taskCategory": {
-        const item = new vscode.TreeItem(element.category, vscode.TreeItemCollapsibleState.Collapsed);
+        const label = element.category.split("/").pop() ?? element.category;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
         item.contextValue = "betterRun.taskCategory";
         item.iconPath = new vscode.ThemeIcon("folder");
-        item.tooltip = undefined;
+        item.tooltip = element.category;
         this.treeItemToNode.set(item, element);
         return item;
       }
 
       case "taskTop": {
-        const item = new vscode.TreeItem(element.item.label, vscode.TreeItemCollapsibleState.None);
-        item.contextValue = "betterRun.task";
+        const item = new vscode.TreeItem(element.item.label, this.taskCollapsibleState(element.item));
         const isRunning = this.runningTasks.has(element.item.id);
+        item.contextValue = this.itemContextValue("betterRun.task", element.item, isRunning);
         item.iconPath = isRunning 
           ? new vscode.ThemeIcon("loading~spin")
-          : new vscode.ThemeIcon("symbol-method");
+          : this.taskIcon(element.item.id);
+        item.description = [element.item.description, element.item.source.packagePath].filter(Boolean).join(" · ") || undefined;
         // Set no-op command to prevent default click behavior, double-click will trigger execution
         item.command = { command: "betterRun.noop", title: "", arguments: [] };
         item.tooltip = isRunning 
           ? `Running: ${element.item.label}` 
-          : `Double-click to run "${element.item.label}"`;
+          : element.item.contributed?.item.tooltip ?? [element.item.description, this.dependencyTooltip(element.item), this.taskResultTooltip(element.item.id), `Double-click to run "${element.item.label}"`].filter(Boolean).join("\n");
         this.treeItemToNode.set(item, element);
         return item;
       }
 
       case "task": {
-        const item = new vscode.TreeItem(element.item.label, vscode.TreeItemCollapsibleState.None);
-        item.contextValue = "betterRun.task";
+        const item = new vscode.TreeItem(element.item.label, this.taskCollapsibleState(element.item));
         const isRunning = this.runningTasks.has(element.item.id);
+        item.contextValue = this.itemContextValue("betterRun.task", element.item, isRunning);
         item.iconPath = isRunning 
           ? new vscode.ThemeIcon("loading~spin")
-          : new vscode.ThemeIcon("symbol-method");
+          : this.taskIcon(element.item.id);
+        item.description = [element.item.description, element.item.source.packagePath].filter(Boolean).join(" · ") || undefined;
         // Set no-op command to prevent default click behavior, double-click will trigger execution
         item.command = { command: "betterRun.noop", title: "", arguments: [] };
         item.tooltip = isRunning 
           ? `Running: ${element.item.label}` 
-          : `Double-click to run "${element.item.label}"`;
+          : element.item.contributed?.item.tooltip ?? [element.item.description, this.dependencyTooltip(element.item), this.taskResultTooltip(element.item.id), `Double-click to run "${element.item.label}"`].filter(Boolean).join("\n");
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "taskDependency": {
+        const dep = element.item;
+        const cycle = !!dep && (element.ancestors.includes(dep.id) || dep.id === element.parent.id);
+        const item = new vscode.TreeItem(
+          element.name,
+          dep && !cycle ? this.taskCollapsibleState(dep) : vscode.TreeItemCollapsibleState.None
+        );
+        item.contextValue = dep ? this.itemContextValue("betterRun.task", dep, this.runningTasks.has(dep.id)) : "betterRun.taskDependency.missing";
+
+        const state = dep && (this.dependencyStates.get(dep.id) ?? (this.runningTasks.has(dep.id) ? "running" : undefined));
+        if (!dep) {
+          item.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+          item.description = "not found";
+        } else if (cycle) {
+          item.iconPath = new vscode.ThemeIcon("sync");
+          item.description = "cycle";
+        } else if (state === "running") {
+          item.iconPath = new vscode.ThemeIcon("loading~spin");
+        } else if (state === "succeeded") {
+          item.iconPath = new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"));
+        } else if (state === "failed") {
+          item.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+        } else {
+          item.iconPath = this.taskIcon(dep.id);
+        }
+        // Sequential dependencies run in the listed order; number them
+        if (element.parent.dependsOrder === "sequence" && !item.description) {
+          item.description = `${element.index + 1}`;
+        }
+
+        item.command = { command: "betterRun.noop", title: "", arguments: [] };
+        item.tooltip = !dep
+          ? `Task "${element.name}" was not found`
+          : cycle
+            ? `"${element.name}" depends on itself through "${element.parent.label}"`
+            : [dep.description, this.dependencyTooltip(dep), state ? `State: ${state}` : undefined].filter(Boolean).join("\n") || undefined;
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "service": {
+        const item = new vscode.TreeItem(element.item.name, vscode.TreeItemCollapsibleState.None);
+        item.contextValue = "betterRun.service";
+        const isRunning = this.runningTasks.has(element.item.id);
+        item.iconPath = isRunning
+          ? new vscode.ThemeIcon("loading~spin")
+          : new vscode.ThemeIcon("server-process");
+        item.description = element.item.image ?? (element.item.build ? "build" : undefined);
+        item.command = { command: "betterRun.noop", title: "", arguments: [] };
+        item.tooltip = isRunning
+          ? `Running: ${element.item.name}`
+          : `${element.item.name}\n${element.item.source.label}\nRight-click for Up/Down/Restart/Logs`;
+        this.treeItemToNode.set(item, element);
+        return item;
+      }
+
+      case "notebookFolder": {
+        const label = element.folder.split("/").pop() ?? element.folder;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.contextValue = "betterRun.notebookFolder";
+        item.iconPath = new vscode.ThemeIcon("folder");
+        item.tooltip = element.folder;
         this.treeItemToNode.set(item, element);
         return item;
       }
 
       case "notebook": {
         const item = new vscode.TreeItem(element.item.name, vscode.TreeItemCollapsibleState.None);
-        item.contextValue = "betterRun.notebook";
+        item.contextValue = this.itemContextValue("betterRun.notebook", element.item);
         const jupyterIconPath = path.join(this.extensionPath, "media", "jupyter.svg");
         item.iconPath = {
           light: vscode.Uri.file(jupyterIconPath),
@@ -487,14 +1116,24 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
     if (!element) {
       if (!this.workspaces.length) await this.refresh();
 
-      const filter = this.getFilterLower();
-      if (!filter) return this.workspaces;
+      const filter = this.getFilter();
+      const pinnedNodes: Node[] = this.pinnedNodes(filter).length ? [{ kind: "pinned" }] : [];
+      const historyNodes: Node[] = this.historyEntries(filter).length ? [{ kind: "history" }] : [];
+      if (!filter) return [...pinnedNodes, ...this.workspaces, ...historyNodes];
 
       // When filtered: only show workspaces that have matches in launches OR tasks
-      return this.workspaces.filter((ws: WorkspaceNode) => this.workspaceHasMatches(ws.key, filter));
+      return [...pinnedNodes, ...this.workspaces.filter((ws: WorkspaceNode) => this.workspaceHasMatches(ws.key, filter)), ...historyNodes];
     }
 
-    const filter = this.getFilterLower();
+    const filter = this.getFilter();
+
+    if (element.kind === "pinned") {
+      return this.pinnedNodes(filter);
+    }
+
+    if (element.kind === "history") {
+      return this.historyEntries(filter).map((entry: HistoryEntry): Node => ({ kind: "historyEntry", entry }));
+    }
 
     if (element.kind === "workspace") {
       // If filter is set and this workspace has no matches, show nothing
@@ -502,6 +1141,7 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
 
       const workspaceNotebooks = this.notebooksByWorkspace.get(element.key) ?? [];
       const hasNotebooks = workspaceNotebooks.length > 0;
+      const workspaceServices = this.servicesByWorkspace.get(element.key) ?? [];
 
       if (!filter) {
         const sections: Node[] = [
@@ -511,6 +1151,9 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
         if (hasNotebooks) {
           sections.push({ kind: "section", workspaceKey: element.key, section: "Notebooks" });
         }
+        if (workspaceServices.length) {
+          sections.push({ kind: "section", workspaceKey: element.key, section: "Services" });
+        }
         return sections;
       }
 
@@ -522,44 +1165,39 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       if (this.workspaceHasTaskMatches(element.key, filter)) {
         out.push({ kind: "section", workspaceKey: element.key, section: "Tasks" });
       }
-      const hasNotebookMatches = workspaceNotebooks.some((n: NotebookItem) => n.name.toLowerCase().includes(filter));
+      const hasNotebookMatches = workspaceNotebooks.some((n: NotebookItem) => this.notebookMatches(n, filter));
       if (hasNotebookMatches) {
         out.push({ kind: "section", workspaceKey: element.key, section: "Notebooks" });
       }
+      if (workspaceServices.some((svc: ServiceItem) => this.serviceMatches(svc, filter))) {
+        out.push({ kind: "section", workspaceKey: element.key, section: "Services" });
+      }
       return out;
     }
 
     // ---------- Launches ----------
     if (element.kind === "section" && element.section === "Launches") {
-      const catLaunches: Map<string, Map<string, LaunchItem[]>> =
-        this.launchesByWorkspaceCategorySource.get(element.workspaceKey) ??
-        new Map<string, Map<string, LaunchItem[]>>();
-    
       // Collect top-level launches (category undefined)
       const top = this.topLevelLaunchesByWorkspace.get(element.workspaceKey) ?? [];
     
       let topItems = top;
-      if (filter) topItems = topItems.filter((i: LaunchItem) => i.name.toLowerCase().includes(filter));
+      if (filter) topItems = topItems.filter((i: LaunchItem) => this.launchMatches(i, filter));
       topItems.sort((a, b) => a.name.localeCompare(b.name));
     
       const cats: string[] = this.launchCategoriesByWorkspace.get(element.workspaceKey) ?? [];
     
-      // Filter categories to only those with matches
-      let catNodes: Node[] = cats.map((c: string) => ({ kind: "launchCategory", workspaceKey: element.workspaceKey, category: c }));
-      if (filter) {
-        catNodes = cats
-          .filter((c) => {
-            const srcMap = catLaunches.get(c) ?? new Map<string, LaunchItem[]>();
-            return Array.from(srcMap.values()).some((arr: LaunchItem[]) =>
-              arr.some((i: LaunchItem) => i.name.toLowerCase().includes(filter))
-            );
-          })
-          .map((c) => ({ kind: "launchCategory", workspaceKey: element.workspaceKey, category: c }));
-      }
+      let topCompounds = this.topLevelCompoundsByWorkspace.get(element.workspaceKey) ?? [];
+      if (filter) topCompounds = topCompounds.filter((c: CompoundItem) => this.compoundMatches(c, filter));
+
+      // First level of the category folders, only those with matches when filtered
+      const catNodes: Node[] = childCategories(cats, "")
+        .filter((c) => !filter || this.launchCategoryHasMatches(element.workspaceKey, c, filter))
+        .map((c) => ({ kind: "launchCategory", workspaceKey: element.workspaceKey, category: c }));
     
+      const compoundNodes: Node[] = topCompounds.map((c: CompoundItem) => ({ kind: "compound", item: c }));
       const topNodes: Node[] = topItems.map((i: LaunchItem) => ({ kind: "launchTop", item: i }));
     
-      return [...topNodes, ...catNodes];
+      return [...compoundNodes, ...topNodes, ...catNodes];
     }
 
     if (element.kind === "launchCategory") {
@@ -577,42 +1215,41 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       }
     
       if (filter) {
-        all = all.filter((i: LaunchItem) => i.name.toLowerCase().includes(filter));
+        all = all.filter((i: LaunchItem) => this.launchMatches(i, filter));
       }
     
       all.sort((a, b) => a.name.localeCompare(b.name));
-      return all.map((i: LaunchItem) => ({ kind: "launch", item: i }));
+
+      let compoundsInCat = this.compoundsByWorkspaceCategory.get(element.workspaceKey)?.get(element.category) ?? [];
+      if (filter) {
+        compoundsInCat = compoundsInCat.filter((c: CompoundItem) => this.compoundMatches(c, filter));
+      }
+
+      const subNodes: Node[] = childCategories(this.launchCategoriesByWorkspace.get(element.workspaceKey) ?? [], element.category)
+        .filter((c) => !filter || this.launchCategoryHasMatches(element.workspaceKey, c, filter))
+        .map((c) => ({ kind: "launchCategory", workspaceKey: element.workspaceKey, category: c }));
+
+      const compoundNodes: Node[] = compoundsInCat.map((c: CompoundItem) => ({ kind: "compound", item: c }));
+      return [...compoundNodes, ...all.map((i: LaunchItem): Node => ({ kind: "launch", item: i })), ...subNodes];
     }
 
     // ---------- Tasks ----------
     if (element.kind === "section" && element.section === "Tasks") {
-      const catTasks: Map<string, Map<string, TaskItem[]>> =
-        this.tasksByWorkspaceCategorySource.get(element.workspaceKey) ??
-        new Map<string, Map<string, TaskItem[]>>();
-    
       // Collect top-level tasks (category undefined) across all tasks in this workspace.
       // We don’t have a dedicated map for them, so we rebuild from sources.ts data via refresh-time storage:
       // easiest: store them in a map on refresh. (See note below)
       const top = this.topLevelTasksByWorkspace.get(element.workspaceKey) ?? [];
     
       let topItems = top;
-      if (filter) topItems = topItems.filter((t: TaskItem) => t.label.toLowerCase().includes(filter));
+      if (filter) topItems = topItems.filter((t: TaskItem) => this.taskMatches(t, filter));
       topItems.sort((a, b) => a.label.localeCompare(b.label));
     
       const cats: string[] = this.taskCategoriesByWorkspace.get(element.workspaceKey) ?? [];
     
-      // Filter categories to only those with matches
-      let catNodes: Node[] = cats.map((c: string) => ({ kind: "taskCategory", workspaceKey: element.workspaceKey, category: c }));
-      if (filter) {
-        catNodes = cats
-          .filter((c) => {
-            const srcMap = catTasks.get(c) ?? new Map<string, TaskItem[]>();
-            return Array.from(srcMap.values()).some((arr: TaskItem[]) =>
-              arr.some((t: TaskItem) => t.label.toLowerCase().includes(filter))
-            );
-          })
-          .map((c) => ({ kind: "taskCategory", workspaceKey: element.workspaceKey, category: c }));
-      }
+      // First level of the category folders, only those with matches when filtered
+      const catNodes: Node[] = childCategories(cats, "")
+        .filter((c) => !filter || this.taskCategoryHasMatches(element.workspaceKey, c, filter))
+        .map((c) => ({ kind: "taskCategory", workspaceKey: element.workspaceKey, category: c }));
     
       const topNodes: Node[] = topItems.map((t: TaskItem) => ({ kind: "taskTop", item: t }));
     
@@ -635,24 +1272,74 @@ export class BetterRunTreeProvider implements vscode.TreeDataProvider<Node> {
       }
     
       if (filter) {
-        all = all.filter((t: TaskItem) => t.label.toLowerCase().includes(filter));
+        all = all.filter((t: TaskItem) => this.taskMatches(t, filter));
       }
     
       all.sort((a, b) => a.label.localeCompare(b.label));
-      return all.map((t: TaskItem) => ({ kind: "task", item: t }));
+
+      const subNodes: Node[] = childCategories(this.taskCategoriesByWorkspace.get(element.workspaceKey) ?? [], element.category)
+        .filter((c) => !filter || this.taskCategoryHasMatches(element.workspaceKey, c, filter))
+        .map((c) => ({ kind: "taskCategory", workspaceKey: element.workspaceKey, category: c }));
+
+      return [...all.map((t: TaskItem): Node => ({ kind: "task", item: t })), ...subNodes];
+    }
+
+    // ---------- Launch variants ----------
+    if (element.kind === "launch" || element.kind === "launchTop") {
+      return this.variantsOf(element.item.id).map((variant: LaunchVariant): Node => ({ kind: "launchVariant", item: element.item, variant }));
+    }
+
+    // ---------- Task dependencies ----------
+    if (element.kind === "task" || element.kind === "taskTop") {
+      return this.dependencyNodes(element.item, []);
+    }
+
+    if (element.kind === "taskDependency") {
+      const dep = element.item;
+      if (!dep) return [];
+      const ancestors = [...element.ancestors, element.parent.id];
+      // A task already on the path would repeat forever
+      if (ancestors.includes(dep.id)) return [];
+      return this.dependencyNodes(dep, ancestors);
     }
 
     // ---------- Notebooks ----------
-    if (element.kind === "section" && element.section === "Notebooks") {
+    if ((element.kind === "section" && element.section === "Notebooks") || element.kind === "notebookFolder") {
       const notebooks = this.notebooksByWorkspace.get(element.workspaceKey) ?? [];
     
       let filtered = notebooks;
       if (filter) {
-        filtered = notebooks.filter((n: NotebookItem) => n.name.toLowerCase().includes(filter));
+        filtered = notebooks.filter((n: NotebookItem) => this.notebookMatches(n, filter));
+      }
+
+      // Folder hierarchy: direct subfolders first, then the notebooks at this level
+      const parent = element.kind === "notebookFolder" ? element.folder : "";
+      const prefix = parent ? `${parent}/` : "";
+      const subfolders = new Set<string>();
+      const here: NotebookItem[] = [];
+      for (const n of filtered) {
+        const folder = n.folder ?? "";
+        if (folder === parent) {
+          here.push(n);
+        } else if (!parent || folder.startsWith(prefix)) {
+          subfolders.add(prefix + folder.slice(prefix.length).split("/")[0]);
+        }
       }
     
-      filtered.sort((a, b) => a.name.localeCompare(b.name));
-      return filtered.map((n: NotebookItem) => ({ kind: "notebook", item: n }));
+      here.sort((a, b) => a.name.localeCompare(b.name));
+      const folderNodes: Node[] = Array.from(subfolders)
+        .sort((a, b) => a.localeCompare(b))
+        .map((folder) => ({ kind: "notebookFolder", workspaceKey: element.workspaceKey, folder }));
+      return [...folderNodes, ...here.map((n: NotebookItem): Node => ({ kind: "notebook", item: n }))];
+    }
+
+    // ---------- Services ----------
+    if (element.kind === "section" && element.section === "Services") {
+      let services = this.servicesByWorkspace.get(element.workspaceKey) ?? [];
+      if (filter) {
+        services = services.filter((svc: ServiceItem) => this.serviceMatches(svc, filter));
+      }
+      return services.map((svc: ServiceItem) => ({ kind: "service", item: svc }));
     }
 
     return [];
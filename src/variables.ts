@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+
+// `betterRun.userInputs` entry, mirroring the `inputs` of tasks.json
+export interface UserInputSpec {
+  id: string;
+  type: "promptString" | "pickString" | "command";
+  description?: string;
+  default?: string;
+  // promptString
+  password?: boolean;
+  // pickString
+  options?: (string | { label?: string; value: string })[];
+  // command
+  command?: string;
+  args?: any;
+}
+
+export function getUserInputs(): UserInputSpec[] {
+  const inputs = vscode.workspace.getConfiguration("betterRun").get<UserInputSpec[]>("userInputs") ?? [];
+  return inputs.filter((i) => i && typeof i.id === "string");
+}
+
+/**
+ * Substitutes VS Code's predefined variables (`${workspaceFolder}`, `${file}`, `${env:X}`,
+ * `${config:x}`, `${command:x}`) and `${input:x}` in user settings tasks.
+ * One resolver is used per run, so an input referenced twice is only asked once.
+ */
+export class VariableResolver {
+  private readonly inputValues: Map<string, string> = new Map();
+
+  constructor(
+    private readonly workspaceFolder: vscode.WorkspaceFolder | undefined,
+    private readonly inputs: UserInputSpec[] = getUserInputs()
+  ) {}
+
+  /** Resolved string, or undefined when the user cancelled an input. Throws for unknown inputs. */
+  async resolve(value: string): Promise<string | undefined> {
+    let out = "";
+    let last = 0;
+    for (const m of value.matchAll(/\$\{([^}]+)\}/g)) {
+      const resolved = await this.resolveVariable(m[1]);
+      if (resolved === null) return undefined;
+      out += value.slice(last, m.index) + (resolved ?? m[0]);
+      last = m.index! + m[0].length;
+    }
+    return out + value.slice(last);
+  }
+
+  /** Resolves every value in order; undefined as soon as an input is cancelled. */
+  async resolveAll(values: string[]): Promise<string[] | undefined> {
+    const out: string[] = [];
+    for (const value of values) {
+      const resolved = await this.resolve(value);
+      if (resolved === undefined) return undefined;
+      out.push(resolved);
+    }
+    return out;
+  }
+
+  // Folder for ${workspaceFolder}: the item's own, else the active file's, else the first one
+  private folder(): vscode.WorkspaceFolder | undefined {
+    if (this.workspaceFolder) return this.workspaceFolder;
+    const active = vscode.window.activeTextEditor?.document.uri;
+    return (active && vscode.workspace.getWorkspaceFolder(active)) ?? vscode.workspace.workspaceFolders?.[0];
+  }
+
+  // undefined = unknown variable (left as-is), null = cancelled
+  private async resolveVariable(name: string): Promise<string | undefined | null> {
+    const colon = name.indexOf(":");
+    if (colon > 0) {
+      const kind = name.slice(0, colon);
+      const arg = name.slice(colon + 1);
+      switch (kind) {
+        case "env":
+          return process.env[arg] ?? "";
+        case "config": {
+          const value = vscode.workspace.getConfiguration().get(arg);
+          return value === undefined ? "" : String(value);
+        }
+        case "workspaceFolder":
+          return vscode.workspace.workspaceFolders?.find((wf) => wf.name === arg)?.uri.fsPath;
+        case "command": {
+          const result = await vscode.commands.executeCommand(arg);
+          return result === undefined ? null : String(result);
+        }
+        case "input":
+          return this.resolveInput(arg);
+      }
+      return undefined;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    const file = editor?.document.uri.scheme === "file" ? editor.document.uri.fsPath : undefined;
+    const folder = this.folder();
+    const fileFolder = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+    const relativeFile = file && fileFolder ? path.relative(fileFolder.uri.fsPath, file) : file;
+
+    switch (name) {
+      case "workspaceFolder":
+      case "workspaceRoot":
+      case "cwd":
+        return folder?.uri.fsPath;
+      case "workspaceFolderBasename":
+        return folder?.name;
+      case "file":
+        return file;
+      case "fileWorkspaceFolder":
+        return fileFolder?.uri.fsPath;
+      case "relativeFile":
+        return relativeFile;
+      case "relativeFileDirname":
+        return relativeFile && path.dirname(relativeFile);
+      case "fileBasename":
+        return file && path.basename(file);
+      case "fileBasenameNoExtension":
+        return file && path.basename(file, path.extname(file));
+      case "fileExtname":
+        return file && path.extname(file);
+      case "fileDirname":
+        return file && path.dirname(file);
+      case "fileDirnameBasename":
+        return file && path.basename(path.dirname(file));
+      case "lineNumber":
+        return editor ? String(editor.selection.active.line + 1) : undefined;
+      case "selectedText":
+        return editor ? editor.document.getText(editor.selection) : undefined;
+      case "userHome":
+        return os.homedir();
+      case "pathSeparator":
+        return path.sep;
+      case "execPath":
+        return process.execPath;
+    }
+    return undefined;
+  }
+
+  private async resolveInput(id: string): Promise<string | null> {
+    const cached = this.inputValues.get(id);
+    if (cached !== undefined) return cached;
+
+    const input = this.inputs.find((i) => i.id === id);
+    if (!input) {
+      throw new Error(`Unknown input '${id}'. Define it in betterRun.userInputs.`);
+    }
+
+    let value: string | undefined;
+    switch (input.type) {
+      case "promptString":
+        value = await vscode.window.showInputBox({
+          prompt: input.description,
+          value: input.default,
+          password: input.password === true,
+          ignoreFocusOut: true,
+        });
+        break;
+      case "pickString": {
+        const items = (input.options ?? []).map((o) =>
+          typeof o === "string" ? { label: o, value: o } : { label: o.label ?? o.value, value: o.value, description: o.label ? o.value : undefined }
+        );
+        // Put the default first so Enter accepts it
+        items.sort((a, b) => Number(b.value === input.default) - Number(a.value === input.default));
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: input.description, ignoreFocusOut: true });
+        value = picked?.value;
+        break;
+      }
+      case "command": {
+        if (!input.command) throw new Error(`Input '${id}' has no command`);
+        const result = await vscode.commands.executeCommand(input.command, input.args);
+        value = result === undefined ? undefined : String(result);
+        break;
+      }
+      default:
+        throw new Error(`Input '${id}' has an unsupported type '${(input as any).type}'`);
+    }
+
+    if (value === undefined) return null;
+    this.inputValues.set(id, value);
+    return value;
+  }
+}
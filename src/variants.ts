@@ -0,0 +1,216 @@
+import * as vscode from "vscode";
+import type { LaunchItem } from "./sources";
+import type { Storage } from "./storage";
+
+// `args` / `env` applied on top of a launch configuration for one run ("Run with…") or
+// saved as a named variant of the launch
+export interface LaunchOverrides {
+  // Replaces the configuration's `args`
+  args?: string[];
+  // Merged over the configuration's `env`
+  env?: Record<string, string>;
+  // Name of the saved variant the overrides came from
+  variant?: string;
+}
+
+export interface LaunchVariant {
+  id: string;
+  // Id of the base launch; the variant is listed under it
+  launchId: string;
+  name: string;
+  args?: string[];
+  env?: Record<string, string>;
+}
+
+// Previously entered values per launch, newest first
+export interface OverrideHistory {
+  args: string[];
+  env: string[];
+}
+
+const MAX_OVERRIDE_HISTORY = 10;
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Splits a command line into arguments; "double" and 'single' quotes group, backslash escapes. */
+export function parseArgs(text: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+      else if (ch === "\\" && quote === '"' && i + 1 < text.length) current += text[++i];
+      else current += ch;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      if (inArg) args.push(current);
+      current = "";
+      inArg = false;
+      continue;
+    }
+    inArg = true;
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "\\" && i + 1 < text.length) current += text[++i];
+    else current += ch;
+  }
+  if (inArg) args.push(current);
+  return args;
+}
+
+function quoteArg(arg: string): string {
+  if (arg && !/[\s"'\\]/.test(arg)) return arg;
+  return `"${arg.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+// Launch configurations may give `args` as one string (passed through as-is by some debuggers)
+export function formatArgs(args: string[] | string | undefined): string {
+  if (typeof args === "string") return args;
+  return (args ?? []).map(quoteArg).join(" ");
+}
+
+/** Parses `KEY=value OTHER="two words"`; entries that aren't KEY=value are reported in `errors`. */
+export function parseEnv(text: string): { env: Record<string, string>; errors: string[] } {
+  const env: Record<string, string> = {};
+  const errors: string[] = [];
+  for (const entry of parseArgs(text)) {
+    const eq = entry.indexOf("=");
+    const name = eq < 0 ? entry : entry.slice(0, eq);
+    if (eq < 0 || !ENV_NAME.test(name)) {
+      errors.push(`Expected NAME=value, got '${entry}'`);
+      continue;
+    }
+    env[name] = entry.slice(eq + 1);
+  }
+  return { env, errors };
+}
+
+export function formatEnv(env: Record<string, string> | undefined): string {
+  return Object.entries(env ?? {})
+    .map(([name, value]) => `${name}=${quoteArg(value)}`)
+    .join(" ");
+}
+
+// "--tenant acme · TENANT=acme", for descriptions and history labels
+export function describeOverrides(overrides: LaunchOverrides): string {
+  return [overrides.args && formatArgs(overrides.args), formatEnv(overrides.env)].filter(Boolean).join(" · ");
+}
+
+export function variantOverrides(variant: LaunchVariant): LaunchOverrides {
+  return { args: variant.args, env: variant.env, variant: variant.name };
+}
+
+/** Applies overrides to a copy of a launch configuration (the copy built for each run). */
+export function applyOverrides(cfg: any, overrides: LaunchOverrides): void {
+  if (overrides.args) cfg.args = [...overrides.args];
+  if (overrides.env && Object.keys(overrides.env).length) cfg.env = { ...cfg.env, ...overrides.env };
+}
+
+/** Records the entered values, newest first without duplicates. */
+export async function rememberOverrides(storage: Storage, launchId: string, argsText: string, envText: string): Promise<void> {
+  const previous = storage.getOverrideHistory(launchId);
+  const push = (values: string[], value: string) =>
+    value.trim() ? [value.trim(), ...values.filter((v) => v !== value.trim())].slice(0, MAX_OVERRIDE_HISTORY) : values;
+  await storage.setOverrideHistory(launchId, { args: push(previous.args, argsText), env: push(previous.env, envText) });
+}
+
+interface ValuePickItem extends vscode.QuickPickItem {
+  value: string;
+}
+
+/**
+ * Free-text input with the previous values to pick from. Resolves to the typed (or picked)
+ * text, or undefined when cancelled; `validate` keeps the picker open on invalid text.
+ */
+function pickValue(options: {
+  title: string;
+  placeholder: string;
+  value: string;
+  history: string[];
+  validate?: (text: string) => string | undefined;
+}): Promise<string | undefined> {
+  const quickPick = vscode.window.createQuickPick<ValuePickItem>();
+  quickPick.title = options.title;
+  quickPick.placeholder = options.placeholder;
+  quickPick.value = options.value;
+  quickPick.ignoreFocusOut = true;
+
+  const update = () => {
+    const typed = quickPick.value;
+    const error = options.validate?.(typed);
+    const typedItem: ValuePickItem = {
+      label: typed || "(none)",
+      description: error ? `$(warning) ${error}` : "Use this value",
+      alwaysShow: true,
+      value: typed,
+    };
+    const previous = options.history
+      .filter((v) => v !== typed)
+      .map((v): ValuePickItem => ({ label: v, description: "Previously used", value: v }));
+    quickPick.items = [typedItem, ...previous];
+  };
+  update();
+
+  return new Promise((resolve) => {
+    quickPick.onDidChangeValue(update);
+    quickPick.onDidAccept(() => {
+      const value = quickPick.selectedItems[0]?.value ?? quickPick.value;
+      if (options.validate?.(value)) {
+        // Show the problem with the picked value by typing it in
+        quickPick.value = value;
+        update();
+        return;
+      }
+      resolve(value);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      resolve(undefined);
+      quickPick.dispose();
+    });
+    quickPick.show();
+  });
+}
+
+/**
+ * Asks for the `args` and `env` overrides of a launch. `initial` pre-fills the inputs (a variant
+ * being edited); otherwise the last values used for the launch, or its own `args`.
+ * Resolves to undefined when cancelled, and to `{ overrides: undefined }` when nothing changed.
+ */
+export async function promptOverrides(
+  item: LaunchItem,
+  storage: Storage,
+  title: string,
+  initial?: LaunchOverrides
+): Promise<{ overrides?: LaunchOverrides } | undefined> {
+  const history = storage.getOverrideHistory(item.id);
+  const baseArgs = formatArgs(item.config?.args);
+
+  const argsText = await pickValue({
+    title: `${title} (1/2): Arguments`,
+    placeholder: "Arguments replacing the launch's args, e.g. --tenant acme --verbose",
+    value: initial ? formatArgs(initial.args ?? item.config?.args) : history.args[0] ?? baseArgs,
+    history: history.args,
+  });
+  if (argsText === undefined) return undefined;
+
+  const envText = await pickValue({
+    title: `${title} (2/2): Environment`,
+    placeholder: "Variables added to the launch's env, e.g. TENANT=acme LOG_LEVEL=debug",
+    value: initial ? formatEnv(initial.env) : history.env[0] ?? "",
+    history: history.env,
+    validate: (text) => parseEnv(text).errors[0],
+  });
+  if (envText === undefined) return undefined;
+
+  await rememberOverrides(storage, item.id, argsText, envText);
+
+  const env = parseEnv(envText).env;
+  // Unchanged arguments are no override, so string-valued `args` stay as written
+  const args = argsText.trim() === baseArgs.trim() ? undefined : parseArgs(argsText);
+  if (!args && !Object.keys(env).length) return { overrides: undefined };
+  return { overrides: { args, env: Object.keys(env).length ? env : undefined } };
+}
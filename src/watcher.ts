@@ -0,0 +1,107 @@
+import * as vscode from "vscode";
+import { getOutputChannel } from "./output";
+import { getNotebookWatchPatterns, getWatchPatterns, invalidateConfigDirs } from "./sources";
+
+// Bursts of file events (e.g. "save all", git checkout) are collapsed into one refresh
+const DEFAULT_DEBOUNCE_MS = 300;
+
+export class SourceWatcher implements vscode.Disposable {
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private readonly disposables: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private pending = false;
+
+  constructor(
+    private readonly onRefresh: () => Promise<void>,
+    private readonly debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {
+    this.createWatchers();
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        // Exclude settings apply to the nested .vscode folder search
+        if (e.affectsConfiguration("files.exclude") || e.affectsConfiguration("search.exclude")) {
+          invalidateConfigDirs();
+          this.schedule();
+        }
+        if (!e.affectsConfiguration("betterRun")) return;
+        // Settings can change which files are watched
+        invalidateConfigDirs();
+        this.createWatchers();
+        this.schedule();
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        // Folder set changed: watch the new folders' files and reload
+        invalidateConfigDirs();
+        this.createWatchers();
+        this.schedule();
+      })
+    );
+  }
+
+  schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.run().catch((err) =>
+        getOutputChannel().appendLine(`Failed to refresh after a source change: ${err instanceof Error ? err.message : err}`)
+      );
+    }, this.debounceMs);
+  }
+
+  private async run(): Promise<void> {
+    // Never overlap two loads; queue one more if events arrived meanwhile
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    this.running = true;
+    try {
+      await this.onRefresh();
+    } finally {
+      this.running = false;
+      if (this.pending) {
+        this.pending = false;
+        this.schedule();
+      }
+    }
+  }
+
+  private createWatchers(): void {
+    this.disposeWatchers();
+
+    for (const pattern of getWatchPatterns()) {
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+      // A config file appearing or disappearing can add or remove a nested .vscode folder
+      watcher.onDidCreate(() => {
+        invalidateConfigDirs();
+        this.schedule();
+      });
+      watcher.onDidChange(() => this.schedule());
+      watcher.onDidDelete(() => {
+        invalidateConfigDirs();
+        this.schedule();
+      });
+      this.watchers.push(watcher);
+    }
+
+    for (const pattern of getNotebookWatchPatterns()) {
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, true, false);
+      watcher.onDidCreate(() => this.schedule());
+      watcher.onDidDelete(() => this.schedule());
+      this.watchers.push(watcher);
+    }
+  }
+
+  private disposeWatchers(): void {
+    for (const w of this.watchers) w.dispose();
+    this.watchers = [];
+  }
+
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.disposeWatchers();
+    for (const d of this.disposables) d.dispose();
+  }
+}